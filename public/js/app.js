@@ -115,8 +115,8 @@ async function loadMorePlaylists() {
         }`;
       }
 
-      // Check if there are more playlists to load
-      hasMorePlaylists = currentPlaylists.length < totalPlaylists;
+      // Follow Spotify's `next` link rather than comparing counts
+      hasMorePlaylists = Boolean(data.next);
 
       debug(
         `Loaded ${data.items.length} more playlists. Total loaded: ${currentPlaylists.length}/${totalPlaylists}`
@@ -345,7 +345,7 @@ async function loadUserData() {
     currentPlaylists = playlistsData.items || [];
     totalPlaylists = playlistsData.total || 0;
     playlistsOffset = currentPlaylists.length;
-    hasMorePlaylists = currentPlaylists.length < totalPlaylists;
+    hasMorePlaylists = Boolean(playlistsData.next);
 
     debug(
       `Loaded ${currentPlaylists.length} playlists. Total: ${totalPlaylists}`
@@ -22,7 +22,7 @@ const config: SpotifyAuthConfig = {
       .split(",")
       [isProduction ? 1 : 0]?.trim() ?? "",
   scopes:
-    "user-read-private user-read-email playlist-read-private user-modify-playback-state",
+    "user-read-private user-read-email playlist-read-private playlist-modify-public playlist-modify-private user-library-read user-library-modify user-read-playback-state user-read-recently-played user-top-read user-modify-playback-state",
   port: parseInt(process.env.PORT ?? "3030", 10),
   isProduction,
 };
@@ -20,8 +20,20 @@ import path from "path";
 import cookieParser from "cookie-parser";
 import {
   AuthStatusResponse,
+  ExportFormat,
+  GeneratorRequest,
+  GenreBuckets,
+  PlaylistDetails,
+  PlaylistTrackRemoval,
+  RepeatMode,
+  SetOperationRequest,
+  ShuffleOptions,
+  SortKey,
   SpotifyAuthConfig,
+  SpotifyPlaylistFull,
+  SpotifyPlaylistTracksResponse,
   SpotifyPlaylistsResponse,
+  SpotifySearchResponse,
   SpotifyUser,
   TokenData,
 } from "./types/types";
@@ -29,7 +41,49 @@ import secureStateManager from "./utils/secureStateManager";
 import tokenStorage from "./utils/tokenStorage";
 import apiCache from "./utils/apiCache";
 import rateLimiter from "./utils/rateLimiter";
-import spotifyClient from "./utils/spotifyClient";
+import spotifyClient, {
+  LIKED_SONGS_ID,
+  SpotifyApiError,
+} from "./utils/spotifyClient";
+import { isSearchType } from "./utils/spotifyGuards";
+import playlistDedupe from "./utils/playlistDedupe";
+import {
+  getSpotifyPageRange,
+  toPlaylistSummary,
+  withLikedSongs,
+} from "./utils/playlistListing";
+import playlistSorter, { SORT_FIELDS } from "./utils/playlistSorter";
+import playlistShuffler from "./utils/playlistShuffler";
+import playlistMixer from "./utils/playlistMixer";
+import playlistExtender from "./utils/playlistExtender";
+import blocklistStore from "./utils/blocklistStore";
+import jobTracker from "./utils/jobTracker";
+import playlistSetOperations, {
+  SET_OPERATIONS,
+} from "./utils/playlistSetOperations";
+import playlistGenerator, {
+  MAX_GENERATED_DURATION_MS,
+  MAX_TOLERANCE_MS,
+} from "./utils/playlistGenerator";
+import smartPlaylists from "./utils/smartPlaylists";
+import smartPlaylistStore from "./utils/smartPlaylistStore";
+import { SmartQueryError } from "./utils/smartPlaylistQuery";
+import playlistHistory from "./utils/playlistHistory";
+import playlistHistoryStore from "./utils/playlistHistoryStore";
+import playlistExporter, { EXPORT_FORMATS } from "./utils/playlistExporter";
+import playlistImporter, { IMPORT_FORMATS } from "./utils/playlistImporter";
+import playlistAnalytics from "./utils/playlistAnalytics";
+import playlistHealth from "./utils/playlistHealth";
+import libraryOverlap from "./utils/libraryOverlap";
+import libraryIndexStore from "./utils/libraryIndexStore";
+import nowPlaying from "./utils/nowPlaying";
+import listeningHistory from "./utils/listeningHistory";
+import listeningHistoryStore from "./utils/listeningHistoryStore";
+import listeningReports, {
+  parseReportPeriod,
+  renderReportHtml,
+} from "./utils/listeningReports";
+import playlistGenres, { DEFAULT_GENRE_BUCKETS } from "./utils/playlistGenres";
 // Import this declaration file to ensure TypeScript knows about our session properties
 
 // Redis session store setup - conditionally imported
@@ -104,7 +158,7 @@ const config: SpotifyAuthConfig = {
       .split(",")
       [isProduction ? 1 : 0]?.trim() ?? "",
   scopes:
-    "user-read-private user-read-email playlist-read-private user-modify-playback-state",
+    "user-read-private user-read-email playlist-read-private playlist-modify-public playlist-modify-private user-library-read user-library-modify user-read-playback-state user-read-recently-played user-top-read user-modify-playback-state",
   port: parseInt(process.env.PORT ?? "3030", 10),
   isProduction,
 };
@@ -147,7 +201,229 @@ function getTokensFromFile(): TokenData | null {
   return null;
 }
 
+/**
+ * Resolve the Spotify token owner for the current session
+ */
+function getUserId(req: Request): string {
+  return req.session?.userId || "default";
+}
+
+/**
+ * Send an error response for a failed Spotify client call
+ */
+function sendApiError(res: Response, error: any, context: string) {
+  if (error?.message?.includes("No authentication tokens")) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  if (error instanceof SpotifyApiError) {
+    console.error(`${context}:`, error.message);
+    return res.status(error.status).json({
+      error: error.message,
+      retryAfterMs: error.retryAfterMs,
+      reason: error.reason,
+    });
+  }
+
+  if (error instanceof SmartQueryError) {
+    return res
+      .status(400)
+      .json({ error: error.message, position: error.position });
+  }
+
+  console.error(`${context}:`, error);
+  return res.status(500).json({ error: "Server error" });
+}
+
+// Liked Songs can be read like a playlist but not written to as one
+const LIKED_SONGS_TARGET_ERROR = `"${LIKED_SONGS_ID}" cannot be a target playlist`;
+
+/**
+ * Check that a request body value is a list of Spotify IDs
+ */
+function isIdList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((id) => typeof id === "string" && /^[A-Za-z0-9]+$/.test(id))
+  );
+}
+
+/**
+ * Check that a request body value is a list of Spotify URIs
+ */
+function isUriList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((uri) => typeof uri === "string" && uri.startsWith("spotify:"))
+  );
+}
+
+/**
+ * Validate the editable fields of a smart playlist rule
+ * @returns An error message, or null if the fields are valid
+ */
+function validateSmartPlaylistInput(
+  body: any,
+  partial: boolean
+): string | null {
+  const { name, query, targetPlaylistId, scheduleMinutes } = body ?? {};
+
+  if ((!partial || name !== undefined) && (typeof name !== "string" || !name)) {
+    return "name is required";
+  }
+  if (
+    (!partial || query !== undefined) &&
+    (typeof query !== "string" || !query)
+  ) {
+    return "query is required";
+  }
+  if (targetPlaylistId !== undefined && typeof targetPlaylistId !== "string") {
+    return "targetPlaylistId must be a playlist ID";
+  }
+  if (targetPlaylistId === LIKED_SONGS_ID) {
+    return LIKED_SONGS_TARGET_ERROR;
+  }
+  if (
+    scheduleMinutes !== undefined &&
+    scheduleMinutes !== null &&
+    (!Number.isInteger(scheduleMinutes) || scheduleMinutes < 1)
+  ) {
+    return "scheduleMinutes must be a positive integer";
+  }
+  return null;
+}
+
+const BLOCKLIST_URIS_ERROR = "uris must list Spotify track or artist URIs";
+
+function isBlocklistUris(value: unknown): value is string[] {
+  return (
+    isUriList(value) &&
+    value.every(
+      (uri) =>
+        uri.startsWith("spotify:track:") || uri.startsWith("spotify:artist:")
+    )
+  );
+}
+
+const REPEAT_MODES: RepeatMode[] = ["track", "context", "off"];
+
+/**
+ * Device a player command targets, if the body names one; otherwise
+ * Spotify uses the active device
+ */
+function getDeviceId(req: Request): string | undefined {
+  const deviceId = req.body?.deviceId;
+  return typeof deviceId === "string" && deviceId ? deviceId : undefined;
+}
+
+// Reconnect delay suggested to now-playing stream clients, and how often
+// an idle stream sends a keep-alive comment
+const SSE_RETRY_MS = 5000;
+const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * Parse a history range bound given as an ISO date or time
+ * @param endOfDay Move a date without a time to the end of that day
+ * @returns Epoch ms, undefined if not given, NaN if invalid
+ */
+function parseHistoryTime(
+  value: unknown,
+  endOfDay: boolean
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") return NaN;
+
+  const time = Date.parse(value);
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? time + 24 * 60 * 60 * 1000 - 1
+    : time;
+}
+
+/**
+ * Check genre buckets given as { bucket: [keyword, ...] }
+ */
+function isGenreBuckets(value: unknown): value is GenreBuckets {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.values(value).every(
+      (keywords) =>
+        Array.isArray(keywords) &&
+        keywords.length > 0 &&
+        keywords.every(
+          (keyword: unknown) => typeof keyword === "string" && keyword.trim()
+        )
+    )
+  );
+}
+
+const GENRE_BUCKETS_ERROR =
+  "buckets must map bucket names to lists of genre keywords";
+
+const LIBRARY_NOT_INDEXED =
+  "Library index not built yet; POST /api/library/overlap/refresh first";
+
+function isExportFormat(value: unknown): value is ExportFormat {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)
+  );
+}
+
+/**
+ * Stream an export as a download. Errors before the first chunk get a
+ * JSON error response; later errors can only abort the download.
+ */
+async function streamExport(
+  res: Response,
+  format: ExportFormat,
+  basename: string,
+  run: (signal: AbortSignal) => Promise<void>
+) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const controller = new AbortController();
+  // Stop fetching pages when the client goes away
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.setHeader("Content-Type", contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${basename}.${extension}"`
+  );
+
+  try {
+    await run(controller.signal);
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    if (!res.headersSent) {
+      res.removeHeader("Content-Disposition");
+      return sendApiError(res, error, "Error exporting playlists");
+    }
+    console.error("Export failed mid-stream:", error);
+    res.destroy(error as Error);
+  }
+}
+
 // --- Middleware ---
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tokens = await tokenStorage.getTokens(getUserId(req));
+    if (!tokens) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 function requestLogger(req: Request, res: Response, next: NextFunction) {
   const start = Date.now();
 
@@ -194,6 +470,7 @@ async function startServer(): Promise<any> {
   const app = express();
 
   app.use(requestLogger);
+  app.use(express.json({ limit: "1mb" }));
   app.use(cookieParser(process.env.COOKIE_SECRET || "spotify-playlist-secret"));
 
   // Setup session middleware
@@ -399,11 +676,50 @@ async function startServer(): Promise<any> {
 
         // Use our Spotify client with built-in caching
         try {
+          // Liked Songs leads the list as a pseudo playlist; ?liked=false
+          // lists Spotify's playlists only
+          const includeLiked = req.query.liked !== "false";
+
+          // ?all=true follows every `next` link and returns one combined list
+          if (req.query.all === "true") {
+            const items = await spotifyClient.getAllUserPlaylists();
+            if (includeLiked) {
+              items.unshift(
+                toPlaylistSummary(await spotifyClient.getLikedSongsPlaylist())
+              );
+            }
+            return res.json({
+              items,
+              total: items.length,
+              offset: 0,
+              limit: items.length,
+              next: null,
+              previous: null,
+            });
+          }
+
+          if (!includeLiked) {
+            const playlistsData = await spotifyClient.getCurrentUserPlaylists(
+              offset,
+              limit
+            );
+            return res.json(playlistsData);
+          }
+
+          // Liked Songs takes position 0, shifting Spotify's playlists by one
+          const range = getSpotifyPageRange(offset, limit);
           const playlistsData = await spotifyClient.getCurrentUserPlaylists(
-            offset,
-            limit
+            range.offset,
+            range.limit
+          );
+          const likedSongs =
+            offset === 0
+              ? toPlaylistSummary(await spotifyClient.getLikedSongsPlaylist())
+              : undefined;
+
+          return res.json(
+            withLikedSongs(playlistsData, offset, limit, likedSongs)
           );
-          return res.json(playlistsData);
         } catch (error: any) {
           if (error.message.includes("No authentication tokens")) {
             return res.status(401).json({ error: "Not authenticated" });
@@ -854,8 +1170,17 @@ async function startServer(): Promise<any> {
 
         // Fetch playlist with caching
         try {
-          const playlist = await spotifyClient.getPlaylist(playlistId);
+          const playlist: SpotifyPlaylistFull = await spotifyClient.getPlaylist(
+            playlistId
+          );
           res.json(playlist);
+
+          // Record new snapshots in the playlist's version history
+          playlistHistory
+            .observe(playlist)
+            .catch((error) =>
+              console.error("Error recording playlist version:", error)
+            );
         } catch (error: any) {
           if (error.message.includes("No authentication tokens")) {
             return res.status(401).json({ error: "Not authenticated" });
@@ -891,11 +1216,8 @@ async function startServer(): Promise<any> {
 
           // Fetch tracks with caching
           try {
-            const tracks = await spotifyClient.getPlaylistTracks(
-              playlistId,
-              offset,
-              limit
-            );
+            const tracks: SpotifyPlaylistTracksResponse =
+              await spotifyClient.getPlaylistTracks(playlistId, offset, limit);
             res.json(tracks);
           } catch (error: any) {
             if (error.message.includes("No authentication tokens")) {
@@ -924,6 +1246,11 @@ async function startServer(): Promise<any> {
             .json({ error: "Missing query or type parameter" });
         }
 
+        const types = type.split(",").map((t) => t.trim());
+        if (!types.every(isSearchType)) {
+          return res.status(400).json({ error: "Invalid type parameter" });
+        }
+
         // Check rate limits
         const rateCheck = await rateLimiter.checkLimit("/search");
         if (!rateCheck.allowed) {
@@ -936,9 +1263,9 @@ async function startServer(): Promise<any> {
 
         // Perform search with caching
         try {
-          const results = await spotifyClient.search(
+          const results: SpotifySearchResponse = await spotifyClient.search(
             query,
-            type,
+            types,
             limit,
             offset
           );
@@ -954,43 +1281,1886 @@ async function startServer(): Promise<any> {
         res.status(500).json({ error: "Server error" });
       }
     });
-  }
 
-  // Health check endpoint that doesn't require Redis
-  app.get("/health", (req: Request, res: Response) => {
-    const healthData = {
-      status: "ok",
-      timestamp: new Date().toISOString(),
-      redis: {
-        available: redisAvailable,
-        secureState: secureStateManager.getRedisStatus(),
-        tokenStorage: tokenStorage.getRedisStatus(),
-        apiCache: apiCache.getRedisStatus(),
-        rateLimiter: rateLimiter.getRedisStatus(),
-      },
-      uptime: process.uptime(),
-    };
+    // Create a new playlist for the current user
+    app.post(
+      "/api/playlists",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { name, description, collaborative } = req.body ?? {};
 
-    res.json(healthData);
-  });
+        if (!name || typeof name !== "string") {
+          return res.status(400).json({ error: "Missing playlist name" });
+        }
 
-  // Add these methods to each of your Redis utilities
-  // For example, in secureStateManager.ts:
+        try {
+          const playlist = await spotifyClient.createPlaylist(
+            {
+              name,
+              description,
+              public: req.body.public,
+              collaborative,
+            },
+            getUserId(req)
+          );
+          res.status(201).json(playlist);
+        } catch (error) {
+          sendApiError(res, error, "Error creating playlist");
+        }
+      }
+    );
 
-  // Serve index.html for client-side routing
-  app.get(["/", "/playlists"], (req: Request, res: Response) => {
-    res.sendFile(path.join(__dirname, "..", "public", "index.html"));
-  });
+    // Update name, description or visibility of a playlist
+    app.put(
+      "/api/playlists/:id",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { name, description, collaborative } = req.body ?? {};
+        const details: PlaylistDetails = {
+          name,
+          description,
+          public: req.body?.public,
+          collaborative,
+        };
+
+        // Drop fields that were not sent so Spotify leaves them unchanged
+        Object.keys(details).forEach((key) => {
+          if (details[key as keyof PlaylistDetails] === undefined) {
+            delete details[key as keyof PlaylistDetails];
+          }
+        });
 
-  console.log("Setting up routes completed");
-  console.log("Starting HTTP server...");
+        if (Object.keys(details).length === 0) {
+          return res.status(400).json({ error: "No playlist details given" });
+        }
 
-  const host = config.isProduction ? "0.0.0.0" : "localhost";
+        try {
+          await spotifyClient.updatePlaylistDetails(
+            req.params.id,
+            details,
+            getUserId(req)
+          );
+          res.json({ success: true });
+        } catch (error) {
+          sendApiError(res, error, "Error updating playlist");
+        }
+      }
+    );
 
-  const server = app.listen(config.port, host, () => {
-    console.log(`Server running at http://${host}:${config.port}`);
-    if (!config.isProduction) open(`http://localhost:${config.port}`);
-  });
+    // Add tracks to a playlist (chunked to Spotify's 100 URI limit)
+    app.post(
+      "/api/playlists/:id/tracks",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { uris, position } = req.body ?? {};
+
+        if (!isUriList(uris)) {
+          return res.status(400).json({ error: "Missing or invalid uris" });
+        }
+
+        if (position !== undefined && !Number.isInteger(position)) {
+          return res.status(400).json({ error: "Invalid position" });
+        }
+
+        try {
+          const result = await spotifyClient.addTracksToPlaylist(
+            req.params.id,
+            uris,
+            position,
+            getUserId(req)
+          );
+          res.status(201).json(result);
+        } catch (error) {
+          sendApiError(res, error, "Error adding playlist tracks");
+        }
+      }
+    );
+
+    // Remove tracks from a playlist by URI and optional positions
+    app.delete(
+      "/api/playlists/:id/tracks",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { tracks, snapshot_id } = req.body ?? {};
+
+        if (
+          !Array.isArray(tracks) ||
+          tracks.length === 0 ||
+          !tracks.every(
+            (track: PlaylistTrackRemoval) =>
+              typeof track?.uri === "string" &&
+              (track.positions === undefined ||
+                (Array.isArray(track.positions) &&
+                  track.positions.every(Number.isInteger)))
+          )
+        ) {
+          return res.status(400).json({ error: "Missing or invalid tracks" });
+        }
+
+        try {
+          const result = await spotifyClient.removeTracksFromPlaylist(
+            req.params.id,
+            tracks,
+            snapshot_id,
+            getUserId(req)
+          );
+          res.json(result);
+        } catch (error) {
+          sendApiError(res, error, "Error removing playlist tracks");
+        }
+      }
+    );
+
+    // Move a range of tracks within a playlist
+    app.put(
+      "/api/playlists/:id/tracks/reorder",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const {
+          range_start,
+          insert_before,
+          range_length = 1,
+          snapshot_id,
+        } = req.body ?? {};
+
+        if (
+          !Number.isInteger(range_start) ||
+          !Number.isInteger(insert_before) ||
+          !Number.isInteger(range_length)
+        ) {
+          return res.status(400).json({
+            error:
+              "range_start, insert_before and range_length must be integers",
+          });
+        }
+
+        try {
+          const result = await spotifyClient.reorderPlaylistTracks(
+            req.params.id,
+            range_start,
+            insert_before,
+            range_length,
+            snapshot_id,
+            getUserId(req)
+          );
+          res.json(result);
+        } catch (error) {
+          sendApiError(res, error, "Error reordering playlist tracks");
+        }
+      }
+    );
+
+    // Report duplicate tracks (exact, same ISRC, fuzzy title/artist)
+    app.get(
+      "/api/playlists/:id/duplicates",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          const report = await playlistDedupe.scan(
+            req.params.id,
+            getUserId(req)
+          );
+          res.json(report);
+        } catch (error) {
+          sendApiError(res, error, "Error scanning playlist for duplicates");
+        }
+      }
+    );
+
+    // Remove duplicate copies chosen from a duplicate report
+    app.post(
+      "/api/playlists/:id/duplicates/remove",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { snapshot_id, positions, kinds } = req.body ?? {};
+
+        if (!snapshot_id || typeof snapshot_id !== "string") {
+          return res.status(400).json({ error: "Missing snapshot_id" });
+        }
+
+        if (
+          positions !== undefined &&
+          !(Array.isArray(positions) && positions.every(Number.isInteger))
+        ) {
+          return res.status(400).json({ error: "Invalid positions" });
+        }
+
+        if (
+          kinds !== undefined &&
+          !(
+            Array.isArray(kinds) &&
+            kinds.every((kind: string) =>
+              ["exact", "isrc", "fuzzy"].includes(kind)
+            )
+          )
+        ) {
+          return res.status(400).json({ error: "Invalid kinds" });
+        }
+
+        try {
+          const result = await playlistDedupe.remove(
+            req.params.id,
+            snapshot_id,
+            { positions, kinds },
+            getUserId(req)
+          );
+          res.json(result);
+        } catch (error) {
+          sendApiError(res, error, "Error removing duplicate tracks");
+        }
+      }
+    );
+
+    // Sort a playlist by audio features or metadata; preview or apply
+    app.post(
+      "/api/playlists/:id/sort",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { keys, preview } = req.body ?? {};
+
+        if (
+          !Array.isArray(keys) ||
+          keys.length === 0 ||
+          !keys.every(
+            (key: SortKey) =>
+              SORT_FIELDS.includes(key?.field) &&
+              (key.direction === undefined ||
+                key.direction === "asc" ||
+                key.direction === "desc")
+          )
+        ) {
+          return res.status(400).json({
+            error: `keys must be a list of { field, direction } with field one of: ${SORT_FIELDS.join(
+              ", "
+            )}`,
+          });
+        }
+
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const plan = await playlistSorter.preview(playlistId, keys, userId);
+            return res.json(plan);
+          }
+
+          const job = jobTracker.start("sort", userId, (onProgress) =>
+            playlistSorter.apply(playlistId, keys, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error sorting playlist");
+        }
+      }
+    );
+
+    // Shuffle a playlist under artist, album, decade and energy constraints;
+    // preview or apply
+    app.post(
+      "/api/playlists/:id/shuffle",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const {
+          preview,
+          snapshot_id,
+          seed,
+          artistGap,
+          separateAlbums,
+          spreadDecades,
+          energyArc,
+        } = req.body ?? {};
+
+        if (snapshot_id !== undefined && typeof snapshot_id !== "string") {
+          return res.status(400).json({ error: "Invalid snapshot_id" });
+        }
+        if (
+          seed !== undefined &&
+          (!Number.isInteger(seed) || seed < 0 || seed >= 2 ** 32)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "seed must be an unsigned 32-bit integer" });
+        }
+        if (
+          artistGap !== undefined &&
+          (!Number.isInteger(artistGap) || artistGap < 0)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "artistGap must be a non-negative integer" });
+        }
+        if (
+          (separateAlbums !== undefined &&
+            typeof separateAlbums !== "boolean") ||
+          (spreadDecades !== undefined && typeof spreadDecades !== "boolean")
+        ) {
+          return res.status(400).json({
+            error: "separateAlbums and spreadDecades must be booleans",
+          });
+        }
+        if (
+          energyArc !== undefined &&
+          energyArc !== null &&
+          energyArc !== "build_up" &&
+          energyArc !== "cool_down"
+        ) {
+          return res
+            .status(400)
+            .json({ error: "energyArc must be build_up or cool_down" });
+        }
+
+        const options: ShuffleOptions = {
+          seed,
+          artistGap,
+          separateAlbums,
+          spreadDecades,
+          energyArc,
+        };
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const plan = await playlistShuffler.preview(
+              playlistId,
+              options,
+              userId
+            );
+            return res.json(plan);
+          }
+
+          const job = jobTracker.start("shuffle", userId, (onProgress) =>
+            playlistShuffler.apply(
+              playlistId,
+              options,
+              snapshot_id,
+              userId,
+              onProgress
+            )
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error shuffling playlist");
+        }
+      }
+    );
+
+    // Sequence a playlist by Camelot key and tempo for mixing; preview or apply
+    app.post(
+      "/api/playlists/:id/harmonic-mix",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { preview } = req.body ?? {};
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const plan = await playlistMixer.preview(playlistId, userId);
+            return res.json(plan);
+          }
+
+          const job = jobTracker.start("harmonic-mix", userId, (onProgress) =>
+            playlistMixer.apply(playlistId, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error sequencing playlist");
+        }
+      }
+    );
+
+    // Recommendations seeded from the playlist itself; preview or append
+    app.post(
+      "/api/playlists/:id/extend",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { count = 10, preview } = req.body ?? {};
+
+        if (!Number.isInteger(count) || count < 1 || count > 100) {
+          return res
+            .status(400)
+            .json({ error: "count must be an integer from 1 to 100" });
+        }
+
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const extension = await playlistExtender.suggest(
+              playlistId,
+              count,
+              userId
+            );
+            return res.json(extension);
+          }
+
+          const job = jobTracker.start("extend", userId, (onProgress) =>
+            playlistExtender.extend(playlistId, count, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error extending playlist");
+        }
+      }
+    );
+
+    // Progress of a background playlist job
+    app.get("/api/jobs/:id", requireAuth, (req: Request, res: Response) => {
+      const job = jobTracker.get(req.params.id, getUserId(req));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    });
+
+    // Combine playlists (or "liked" for Liked Songs) with a set operation
+    app.post(
+      "/api/playlists/set-operations",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const {
+          sources,
+          operation,
+          matchBy = "uri",
+          targetPlaylistId,
+          targetDetails,
+          replace,
+          preview,
+        } = req.body ?? {};
+
+        if (
+          !Array.isArray(sources) ||
+          sources.length < 2 ||
+          !sources.every((source: unknown) => typeof source === "string")
+        ) {
+          return res
+            .status(400)
+            .json({ error: "sources must list at least two playlist IDs" });
+        }
+
+        if (!SET_OPERATIONS.includes(operation)) {
+          return res.status(400).json({
+            error: `operation must be one of: ${SET_OPERATIONS.join(", ")}`,
+          });
+        }
+
+        if (matchBy !== "uri" && matchBy !== "isrc") {
+          return res
+            .status(400)
+            .json({ error: 'matchBy must be "uri" or "isrc"' });
+        }
+
+        if (targetPlaylistId === LIKED_SONGS_ID) {
+          return res.status(400).json({ error: LIKED_SONGS_TARGET_ERROR });
+        }
+
+        const request: SetOperationRequest = {
+          sources,
+          operation,
+          matchBy,
+          targetPlaylistId,
+          targetDetails,
+          replace: Boolean(replace),
+        };
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const result = await playlistSetOperations.preview(request, userId);
+            return res.json(result);
+          }
+
+          const job = jobTracker.start("set-operation", userId, (onProgress) =>
+            playlistSetOperations.apply(request, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error combining playlists");
+        }
+      }
+    );
+
+    // Build a playlist of a target duration within tempo and energy bounds
+    app.post(
+      "/api/playlists/generate",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const {
+          sources,
+          durationMs,
+          toleranceMs,
+          tempo,
+          tempoCurve,
+          energy,
+          seed,
+          targetDetails,
+          preview,
+        } = req.body ?? {};
+
+        if (
+          !Array.isArray(sources) ||
+          sources.length === 0 ||
+          !sources.every((source: unknown) => typeof source === "string")
+        ) {
+          return res
+            .status(400)
+            .json({ error: "sources must list playlist IDs or liked" });
+        }
+        if (
+          !Number.isInteger(durationMs) ||
+          durationMs <= 0 ||
+          durationMs > MAX_GENERATED_DURATION_MS
+        ) {
+          return res.status(400).json({
+            error: `durationMs must be a positive integer up to ${MAX_GENERATED_DURATION_MS}`,
+          });
+        }
+        if (
+          toleranceMs !== undefined &&
+          (!Number.isInteger(toleranceMs) ||
+            toleranceMs < 0 ||
+            toleranceMs > MAX_TOLERANCE_MS)
+        ) {
+          return res.status(400).json({
+            error: `toleranceMs must be a non-negative integer up to ${MAX_TOLERANCE_MS}`,
+          });
+        }
+        if (
+          tempo !== undefined &&
+          !(
+            typeof tempo?.min === "number" &&
+            typeof tempo.max === "number" &&
+            tempo.min <= tempo.max
+          )
+        ) {
+          return res
+            .status(400)
+            .json({ error: "tempo must be { min, max } in BPM" });
+        }
+        if (
+          tempoCurve !== undefined &&
+          !(
+            Array.isArray(tempoCurve) &&
+            tempoCurve.length > 0 &&
+            tempoCurve.every((bpm: unknown) => typeof bpm === "number")
+          )
+        ) {
+          return res
+            .status(400)
+            .json({ error: "tempoCurve must be a list of BPM values" });
+        }
+        if (
+          energy !== undefined &&
+          !(
+            typeof energy === "object" &&
+            energy !== null &&
+            ["min", "max"].every(
+              (bound) =>
+                energy[bound] === undefined ||
+                (typeof energy[bound] === "number" &&
+                  energy[bound] >= 0 &&
+                  energy[bound] <= 1)
+            ) &&
+            (energy.min ?? 0) <= (energy.max ?? 1)
+          )
+        ) {
+          return res
+            .status(400)
+            .json({ error: "energy must be { min?, max? } between 0 and 1" });
+        }
+        if (
+          seed !== undefined &&
+          (!Number.isInteger(seed) || seed < 0 || seed >= 2 ** 32)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "seed must be an unsigned 32-bit integer" });
+        }
+
+        const request: GeneratorRequest = {
+          sources,
+          durationMs,
+          toleranceMs,
+          tempo,
+          tempoCurve,
+          energy,
+          seed,
+          targetDetails,
+        };
+        const userId = getUserId(req);
+
+        try {
+          if (preview) {
+            const result = await playlistGenerator.preview(request, userId);
+            return res.json(result);
+          }
+
+          const job = jobTracker.start("generate", userId, (onProgress) =>
+            playlistGenerator.generate(request, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error generating playlist");
+        }
+      }
+    );
+
+    // Version history: records the current snapshot, then lists versions
+    app.get(
+      "/api/playlists/:id/history",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        try {
+          const current = await playlistHistory.capture(playlistId, userId);
+          const versions = await playlistHistory.list(playlistId, userId);
+          res.json({ current: current.snapshotId, items: versions });
+        } catch (error) {
+          sendApiError(res, error, "Error fetching playlist history");
+        }
+      }
+    );
+
+    // Added, removed and moved tracks between two versions
+    app.get(
+      "/api/playlists/:id/history/diff",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+        const from = req.query.from;
+        let to = req.query.to;
+
+        if (typeof from !== "string" || (to && typeof to !== "string")) {
+          return res
+            .status(400)
+            .json({ error: "from (and optionally to) must be snapshot IDs" });
+        }
+
+        try {
+          // Compare against the current version by default
+          if (!to) {
+            to = (await playlistHistory.capture(playlistId, userId)).snapshotId;
+          }
+          const diff = await playlistHistory.diff(
+            playlistId,
+            from,
+            to as string,
+            userId
+          );
+          res.json(diff);
+        } catch (error) {
+          sendApiError(res, error, "Error comparing playlist versions");
+        }
+      }
+    );
+
+    app.get(
+      "/api/playlists/:id/history/:snapshotId",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          const version = await playlistHistory.get(
+            req.params.id,
+            req.params.snapshotId,
+            getUserId(req)
+          );
+          res.json(version);
+        } catch (error) {
+          sendApiError(res, error, "Error fetching playlist version");
+        }
+      }
+    );
+
+    // Rewrite the playlist to a recorded version
+    app.post(
+      "/api/playlists/:id/history/:snapshotId/restore",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { id: playlistId, snapshotId } = req.params;
+        const userId = getUserId(req);
+
+        if (playlistId === LIKED_SONGS_ID) {
+          return res.status(400).json({ error: LIKED_SONGS_TARGET_ERROR });
+        }
+
+        try {
+          // Fail fast on unknown versions instead of starting a job
+          await playlistHistory.get(playlistId, snapshotId, userId);
+
+          const job = jobTracker.start("restore", userId, (onProgress) =>
+            playlistHistory.restore(playlistId, snapshotId, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error restoring playlist");
+        }
+      }
+    );
+
+    // Smart playlists: rules in a small query language synced to playlists
+    app.get(
+      "/api/smart-playlists",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const rules = await smartPlaylistStore.list(getUserId(req));
+        res.json({ items: rules });
+      }
+    );
+
+    app.post(
+      "/api/smart-playlists",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const error = validateSmartPlaylistInput(req.body, false);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+
+        const { name, query, targetPlaylistId, scheduleMinutes } = req.body;
+        try {
+          const rule = await smartPlaylists.create(
+            { name, query, targetPlaylistId, scheduleMinutes },
+            getUserId(req)
+          );
+          res.status(201).json(rule);
+        } catch (error) {
+          sendApiError(res, error, "Error creating smart playlist");
+        }
+      }
+    );
+
+    // Evaluate an unsaved query
+    app.post(
+      "/api/smart-playlists/preview",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { query } = req.body ?? {};
+        if (typeof query !== "string" || !query) {
+          return res.status(400).json({ error: "query is required" });
+        }
+
+        try {
+          const tracks = await smartPlaylists.preview(query, getUserId(req));
+          res.json({ total: tracks.length, tracks });
+        } catch (error) {
+          sendApiError(res, error, "Error previewing smart playlist");
+        }
+      }
+    );
+
+    app.get(
+      "/api/smart-playlists/:id",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const rule = await smartPlaylistStore.get(
+          req.params.id,
+          getUserId(req)
+        );
+        if (!rule) {
+          return res.status(404).json({ error: "Smart playlist not found" });
+        }
+        res.json(rule);
+      }
+    );
+
+    app.put(
+      "/api/smart-playlists/:id",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const error = validateSmartPlaylistInput(req.body, true);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+
+        const { name, query, targetPlaylistId, scheduleMinutes } = req.body;
+        const changes = Object.fromEntries(
+          Object.entries({ name, query, targetPlaylistId, scheduleMinutes })
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, value ?? undefined])
+        );
+
+        try {
+          const rule = await smartPlaylists.update(
+            req.params.id,
+            changes,
+            getUserId(req)
+          );
+          if (!rule) {
+            return res.status(404).json({ error: "Smart playlist not found" });
+          }
+          res.json(rule);
+        } catch (error) {
+          sendApiError(res, error, "Error updating smart playlist");
+        }
+      }
+    );
+
+    app.delete(
+      "/api/smart-playlists/:id",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const removed = await smartPlaylistStore.remove(
+          req.params.id,
+          getUserId(req)
+        );
+        if (!removed) {
+          return res.status(404).json({ error: "Smart playlist not found" });
+        }
+        res.status(204).end();
+      }
+    );
+
+    // Evaluate a saved rule without syncing it
+    app.get(
+      "/api/smart-playlists/:id/preview",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const userId = getUserId(req);
+        const rule = await smartPlaylistStore.get(req.params.id, userId);
+        if (!rule) {
+          return res.status(404).json({ error: "Smart playlist not found" });
+        }
+
+        try {
+          const tracks = await smartPlaylists.preview(rule.query, userId);
+          res.json({ total: tracks.length, tracks });
+        } catch (error) {
+          sendApiError(res, error, "Error previewing smart playlist");
+        }
+      }
+    );
+
+    // Sync a rule into its target playlist now
+    app.post(
+      "/api/smart-playlists/:id/sync",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const userId = getUserId(req);
+        const rule = await smartPlaylistStore.get(req.params.id, userId);
+        if (!rule) {
+          return res.status(404).json({ error: "Smart playlist not found" });
+        }
+
+        const job = jobTracker.start("smart-playlist-sync", userId, () =>
+          smartPlaylists.sync(rule.id, userId)
+        );
+        res.status(202).json({ jobId: job.id, status: job.status });
+      }
+    );
+
+    smartPlaylists.startScheduler();
+
+    // Export a playlist as a file download, streamed page by page
+    app.get(
+      "/api/playlists/:id/export",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const format = req.query.format ?? "csv";
+        if (!isExportFormat(format)) {
+          return res.status(400).json({
+            error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(
+              ", "
+            )}`,
+          });
+        }
+
+        const playlistId = req.params.id;
+        await streamExport(res, format, `playlist-${playlistId}`, (signal) =>
+          playlistExporter.exportPlaylist(
+            playlistId,
+            format,
+            res,
+            getUserId(req),
+            signal
+          )
+        );
+      }
+    );
+
+    // Export every playlist of the user in one file
+    app.get(
+      "/api/library/export",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const format = req.query.format ?? "csv";
+        if (!isExportFormat(format)) {
+          return res.status(400).json({
+            error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(
+              ", "
+            )}`,
+          });
+        }
+
+        await streamExport(res, format, "spotify-library", (signal) =>
+          playlistExporter.exportLibrary(format, res, getUserId(req), signal)
+        );
+      }
+    );
+
+    // Match an uploaded CSV, M3U or "Artist - Title" list to Spotify tracks
+    app.post(
+      "/api/import/match",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { content, format } = req.body ?? {};
+
+        if (typeof content !== "string" || !content.trim()) {
+          return res.status(400).json({ error: "content is required" });
+        }
+        if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+          return res.status(400).json({
+            error: `format must be one of: ${IMPORT_FORMATS.join(", ")}`,
+          });
+        }
+
+        const userId = getUserId(req);
+        const job = jobTracker.start("import-match", userId, (onProgress) =>
+          playlistImporter.match(content, format, userId, onProgress)
+        );
+        res.status(202).json({ jobId: job.id, status: job.status });
+      }
+    );
+
+    // Create a playlist from the confirmed matches of an import
+    app.post(
+      "/api/import/create",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { name, description, public: isPublic, uris } = req.body ?? {};
+
+        if (typeof name !== "string" || !name) {
+          return res.status(400).json({ error: "name is required" });
+        }
+        if (!isUriList(uris)) {
+          return res
+            .status(400)
+            .json({ error: "uris must be a non-empty list of Spotify URIs" });
+        }
+
+        const userId = getUserId(req);
+        const job = jobTracker.start("import-create", userId, () =>
+          playlistImporter.create(
+            { name, description, public: isPublic },
+            uris,
+            userId
+          )
+        );
+        res.status(202).json({ jobId: job.id, status: job.status });
+      }
+    );
+
+    // Durations, artists, release years, audio features, genres, contributors
+    app.get(
+      "/api/playlists/:id/stats",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          const stats = await playlistAnalytics.getStats(
+            req.params.id,
+            getUserId(req)
+          );
+          res.json(stats);
+        } catch (error) {
+          sendApiError(res, error, "Error computing playlist statistics");
+        }
+      }
+    );
+
+    // Greyed-out, removed, local and relinked tracks in the user's market
+    app.get(
+      "/api/playlists/:id/health",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+
+        // Replacements take one search per unavailable track, so scans
+        // that suggest them run as a background job
+        if (req.query.suggest === "true") {
+          const job = jobTracker.start("health-scan", userId, () =>
+            playlistHealth.scan(playlistId, userId, true)
+          );
+          return res.status(202).json({ jobId: job.id, status: job.status });
+        }
+
+        try {
+          const report = await playlistHealth.scan(playlistId, userId);
+          res.json(report);
+        } catch (error) {
+          sendApiError(res, error, "Error scanning playlist health");
+        }
+      }
+    );
+
+    // Remove or replace unavailable tracks found by a health scan
+    app.post(
+      "/api/playlists/:id/health/fix",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { snapshot_id, fixes } = req.body ?? {};
+
+        if (!snapshot_id || typeof snapshot_id !== "string") {
+          return res.status(400).json({ error: "Missing snapshot_id" });
+        }
+
+        if (
+          !Array.isArray(fixes) ||
+          !fixes.every(
+            (fix: any) =>
+              Number.isInteger(fix?.position) &&
+              (fix.uri === undefined || isUriList([fix.uri]))
+          )
+        ) {
+          return res.status(400).json({
+            error: "fixes must be a list of { position, uri? } entries",
+          });
+        }
+
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+        const job = jobTracker.start("health-fix", userId, (onProgress) =>
+          playlistHealth.fix(playlistId, snapshot_id, fixes, userId, onProgress)
+        );
+        res.status(202).json({ jobId: job.id, status: job.status });
+      }
+    );
+
+    // Index every playlist's tracks; unchanged snapshots are skipped
+    app.post(
+      "/api/library/overlap/refresh",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const userId = getUserId(req);
+        const job = jobTracker.start("library-index", userId, (onProgress) =>
+          libraryOverlap.refresh(userId, onProgress)
+        );
+        res.status(202).json({ jobId: job.id, status: job.status });
+      }
+    );
+
+    // Jaccard similarity matrix and most similar playlist pairs
+    app.get(
+      "/api/library/overlap",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          const userId = getUserId(req);
+          if (!(await libraryOverlap.isIndexed(userId))) {
+            return res.status(404).json({ error: LIBRARY_NOT_INDEXED });
+          }
+          res.json(await libraryOverlap.overlap(userId));
+        } catch (error) {
+          sendApiError(res, error, "Error computing playlist overlap");
+        }
+      }
+    );
+
+    // Playlists containing a track
+    app.get(
+      "/api/library/overlap/containing",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { uri } = req.query;
+        if (typeof uri !== "string" || !isUriList([uri])) {
+          return res.status(400).json({ error: "uri must be a Spotify URI" });
+        }
+
+        try {
+          const userId = getUserId(req);
+          if (!(await libraryOverlap.isIndexed(userId))) {
+            return res.status(404).json({ error: LIBRARY_NOT_INDEXED });
+          }
+          const playlists = await libraryOverlap.playlistsContaining(
+            uri,
+            userId
+          );
+          res.json({ uri, playlists });
+        } catch (error) {
+          sendApiError(res, error, "Error finding playlists with track");
+        }
+      }
+    );
+
+    // Tracks that appear in at least `min` playlists
+    app.get(
+      "/api/library/overlap/shared",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const min = parseInt((req.query.min as string) || "2", 10);
+        if (!Number.isInteger(min) || min < 2) {
+          return res
+            .status(400)
+            .json({ error: "min must be an integer of at least 2" });
+        }
+
+        try {
+          const userId = getUserId(req);
+          if (!(await libraryOverlap.isIndexed(userId))) {
+            return res.status(404).json({ error: LIBRARY_NOT_INDEXED });
+          }
+          const tracks = await libraryOverlap.sharedTracks(min, userId);
+          res.json({ min, total: tracks.length, items: tracks });
+        } catch (error) {
+          sendApiError(res, error, "Error finding shared tracks");
+        }
+      }
+    );
+
+    // Track and artist URIs never suggested when extending playlists
+    app.get(
+      "/api/blocklist",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const uris = await blocklistStore.list(getUserId(req));
+        res.json({ uris });
+      }
+    );
+
+    app.post(
+      "/api/blocklist",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { uris } = req.body ?? {};
+        if (!isBlocklistUris(uris)) {
+          return res.status(400).json({ error: BLOCKLIST_URIS_ERROR });
+        }
+
+        try {
+          const userId = getUserId(req);
+          await blocklistStore.add(uris, userId);
+          res.json({ uris: await blocklistStore.list(userId) });
+        } catch (error) {
+          sendApiError(res, error, "Error updating blocklist");
+        }
+      }
+    );
+
+    app.delete(
+      "/api/blocklist",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { uris } = req.body ?? {};
+        if (!isBlocklistUris(uris)) {
+          return res.status(400).json({ error: BLOCKLIST_URIS_ERROR });
+        }
+
+        try {
+          const userId = getUserId(req);
+          const removed = await blocklistStore.remove(uris, userId);
+          res.json({ removed, uris: await blocklistStore.list(userId) });
+        } catch (error) {
+          sendApiError(res, error, "Error updating blocklist");
+        }
+      }
+    );
+
+    // Liked Songs, most recently saved first
+    app.get(
+      "/api/library/tracks",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const offset = parseInt(req.query.offset as string) || 0;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 50);
+
+        try {
+          const page = await spotifyClient.getSavedTracks(
+            offset,
+            limit,
+            getUserId(req)
+          );
+          res.json(page);
+        } catch (error) {
+          sendApiError(res, error, "Error fetching saved tracks");
+        }
+      }
+    );
+
+    app.put(
+      "/api/library/tracks",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { ids } = req.body ?? {};
+        if (!isIdList(ids)) {
+          return res.status(400).json({ error: "ids must list track IDs" });
+        }
+
+        try {
+          await spotifyClient.saveTracks(ids, getUserId(req));
+          res.json({ saved: ids.length });
+        } catch (error) {
+          sendApiError(res, error, "Error saving tracks");
+        }
+      }
+    );
+
+    app.delete(
+      "/api/library/tracks",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { ids } = req.body ?? {};
+        if (!isIdList(ids)) {
+          return res.status(400).json({ error: "ids must list track IDs" });
+        }
+
+        try {
+          await spotifyClient.removeSavedTracks(ids, getUserId(req));
+          res.json({ removed: ids.length });
+        } catch (error) {
+          sendApiError(res, error, "Error removing saved tracks");
+        }
+      }
+    );
+
+    // Whether each of the comma-separated track `ids` is in Liked Songs
+    app.get(
+      "/api/library/tracks/contains",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const ids = String(req.query.ids ?? "")
+          .split(",")
+          .filter(Boolean);
+        if (ids.length === 0) {
+          return res.status(400).json({ error: "ids must list track IDs" });
+        }
+
+        try {
+          const saved = await spotifyClient.checkSavedTracks(
+            ids,
+            getUserId(req)
+          );
+          res.json(Object.fromEntries(ids.map((id, i) => [id, saved[i]])));
+        } catch (error) {
+          sendApiError(res, error, "Error checking saved tracks");
+        }
+      }
+    );
+
+    // Saved albums, most recently saved first
+    app.get(
+      "/api/library/albums",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const offset = parseInt(req.query.offset as string) || 0;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+
+        try {
+          const page = await spotifyClient.getSavedAlbums(
+            offset,
+            limit,
+            getUserId(req)
+          );
+          res.json(page);
+        } catch (error) {
+          sendApiError(res, error, "Error fetching saved albums");
+        }
+      }
+    );
+
+    app.put(
+      "/api/library/albums",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { ids } = req.body ?? {};
+        if (!isIdList(ids)) {
+          return res.status(400).json({ error: "ids must list album IDs" });
+        }
+
+        try {
+          await spotifyClient.saveAlbums(ids, getUserId(req));
+          res.json({ saved: ids.length });
+        } catch (error) {
+          sendApiError(res, error, "Error saving albums");
+        }
+      }
+    );
+
+    app.delete(
+      "/api/library/albums",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { ids } = req.body ?? {};
+        if (!isIdList(ids)) {
+          return res.status(400).json({ error: "ids must list album IDs" });
+        }
+
+        try {
+          await spotifyClient.removeSavedAlbums(ids, getUserId(req));
+          res.json({ removed: ids.length });
+        } catch (error) {
+          sendApiError(res, error, "Error removing saved albums");
+        }
+      }
+    );
+
+    // Whether each of the comma-separated album `ids` is saved
+    app.get(
+      "/api/library/albums/contains",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const ids = String(req.query.ids ?? "")
+          .split(",")
+          .filter(Boolean);
+        if (ids.length === 0) {
+          return res.status(400).json({ error: "ids must list album IDs" });
+        }
+
+        try {
+          const saved = await spotifyClient.checkSavedAlbums(
+            ids,
+            getUserId(req)
+          );
+          res.json(Object.fromEntries(ids.map((id, i) => [id, saved[i]])));
+        } catch (error) {
+          sendApiError(res, error, "Error checking saved albums");
+        }
+      }
+    );
+
+    // Current playback state; null when no device is active
+    app.get("/api/player", requireAuth, async (req: Request, res: Response) => {
+      try {
+        res.json(await spotifyClient.getPlaybackState(getUserId(req)));
+      } catch (error) {
+        sendApiError(res, error, "Error fetching playback state");
+      }
+    });
+
+    app.get(
+      "/api/player/devices",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          res.json({ devices: await spotifyClient.getDevices(getUserId(req)) });
+        } catch (error) {
+          sendApiError(res, error, "Error fetching devices");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/transfer",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { deviceId, play = false } = req.body ?? {};
+        if (typeof deviceId !== "string" || !deviceId) {
+          return res.status(400).json({ error: "deviceId is required" });
+        }
+        if (typeof play !== "boolean") {
+          return res.status(400).json({ error: "play must be a boolean" });
+        }
+
+        try {
+          await spotifyClient.transferPlayback(deviceId, play, getUserId(req));
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error transferring playback");
+        }
+      }
+    );
+
+    // Play a playlist (`playlistId`, `liked` for Liked Songs), another
+    // context or a list of tracks, starting at the 0-based `offset` or at
+    // `trackUri`. Without something to play, playback resumes.
+    app.post(
+      "/api/player/play",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const {
+          playlistId,
+          contextUri,
+          uris,
+          offset,
+          trackUri,
+          positionMs,
+          deviceId,
+        } = req.body ?? {};
+
+        if (
+          [playlistId, contextUri, uris].filter((value) => value !== undefined)
+            .length > 1
+        ) {
+          return res.status(400).json({
+            error: "Pass only one of playlistId, contextUri and uris",
+          });
+        }
+        if (playlistId !== undefined && typeof playlistId !== "string") {
+          return res.status(400).json({ error: "playlistId must be a string" });
+        }
+        if (
+          contextUri !== undefined &&
+          !(typeof contextUri === "string" && contextUri.startsWith("spotify:"))
+        ) {
+          return res
+            .status(400)
+            .json({ error: "contextUri must be a Spotify URI" });
+        }
+        if (uris !== undefined && !isUriList(uris)) {
+          return res
+            .status(400)
+            .json({ error: "uris must be a non-empty list of Spotify URIs" });
+        }
+        if (
+          offset !== undefined &&
+          !(Number.isInteger(offset) && offset >= 0)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "offset must be a non-negative integer" });
+        }
+        if (
+          trackUri !== undefined &&
+          !(typeof trackUri === "string" && trackUri.startsWith("spotify:"))
+        ) {
+          return res
+            .status(400)
+            .json({ error: "trackUri must be a Spotify URI" });
+        }
+        if (offset !== undefined && trackUri !== undefined) {
+          return res
+            .status(400)
+            .json({ error: "Pass either offset or trackUri, not both" });
+        }
+        if (
+          positionMs !== undefined &&
+          !(Number.isInteger(positionMs) && positionMs >= 0)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "positionMs must be a non-negative integer" });
+        }
+        if (deviceId !== undefined && typeof deviceId !== "string") {
+          return res.status(400).json({ error: "deviceId must be a string" });
+        }
+
+        const userId = getUserId(req);
+        try {
+          // Liked Songs has no playlist URI; its pseudo playlist carries
+          // the collection URI Spotify plays it by
+          const context = playlistId
+            ? playlistId === LIKED_SONGS_ID
+              ? (await spotifyClient.getPlaylist(playlistId, userId)).uri
+              : `spotify:playlist:${playlistId}`
+            : contextUri;
+
+          await spotifyClient.startPlayback(
+            {
+              contextUri: context,
+              uris,
+              offset,
+              offsetUri: trackUri,
+              positionMs,
+              deviceId,
+            },
+            userId
+          );
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error starting playback");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/pause",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          await spotifyClient.pausePlayback(getDeviceId(req), getUserId(req));
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error pausing playback");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/next",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          await spotifyClient.skipToNext(getDeviceId(req), getUserId(req));
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error skipping to next track");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/previous",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          await spotifyClient.skipToPrevious(getDeviceId(req), getUserId(req));
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error skipping to previous track");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/shuffle",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { state } = req.body ?? {};
+        if (typeof state !== "boolean") {
+          return res.status(400).json({ error: "state must be a boolean" });
+        }
+
+        try {
+          await spotifyClient.setShuffle(
+            state,
+            getDeviceId(req),
+            getUserId(req)
+          );
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error setting shuffle");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/repeat",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { state } = req.body ?? {};
+        if (!REPEAT_MODES.includes(state)) {
+          return res.status(400).json({
+            error: `state must be one of: ${REPEAT_MODES.join(", ")}`,
+          });
+        }
+
+        try {
+          await spotifyClient.setRepeat(
+            state,
+            getDeviceId(req),
+            getUserId(req)
+          );
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error setting repeat mode");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/volume",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { percent } = req.body ?? {};
+        if (!(Number.isInteger(percent) && percent >= 0 && percent <= 100)) {
+          return res
+            .status(400)
+            .json({ error: "percent must be an integer from 0 to 100" });
+        }
+
+        try {
+          await spotifyClient.setVolume(
+            percent,
+            getDeviceId(req),
+            getUserId(req)
+          );
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error setting volume");
+        }
+      }
+    );
+
+    app.post(
+      "/api/player/queue",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { uri } = req.body ?? {};
+        if (!(typeof uri === "string" && uri.startsWith("spotify:"))) {
+          return res.status(400).json({ error: "uri must be a Spotify URI" });
+        }
+
+        try {
+          await spotifyClient.addToQueue(uri, getDeviceId(req), getUserId(req));
+          res.status(204).end();
+        } catch (error) {
+          sendApiError(res, error, "Error adding to queue");
+        }
+      }
+    );
+
+    // Now-playing updates as Server-Sent Events; every open stream of a
+    // user shares one poll loop
+    app.get(
+      "/api/player/stream",
+      requireAuth,
+      (req: Request, res: Response) => {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+        // The stream outlives the server's socket timeout
+        req.socket.setTimeout(0);
+        res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+        const unsubscribe = nowPlaying.subscribe(getUserId(req), (event) => {
+          res.write(
+            `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+          );
+        });
+        // Comments keep proxies from closing an idle stream
+        const heartbeat = setInterval(
+          () => res.write(": heartbeat\n\n"),
+          SSE_HEARTBEAT_MS
+        );
+
+        req.on("close", () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        });
+      }
+    );
+
+    // Recorded plays, newest first. `from` and `to` take ISO dates or
+    // times; a date-only `to` includes that whole day.
+    app.get(
+      "/api/history",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const from = parseHistoryTime(req.query.from, false);
+        const to = parseHistoryTime(req.query.to, true);
+        if (Number.isNaN(from) || Number.isNaN(to)) {
+          return res
+            .status(400)
+            .json({ error: "from and to must be ISO dates or times" });
+        }
+
+        const offset = parseInt(req.query.offset as string) || 0;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+        try {
+          const { items, total } = await listeningHistoryStore.query(
+            { from, to, offset, limit },
+            getUserId(req)
+          );
+          res.json({ items, total, offset, limit });
+        } catch (error) {
+          sendApiError(res, error, "Error fetching listening history");
+        }
+      }
+    );
+
+    // Record the current user's latest plays without waiting for the
+    // recorder
+    app.post(
+      "/api/history/record",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        try {
+          const recorded = await listeningHistory.record(getUserId(req));
+          res.json({ recorded });
+        } catch (error) {
+          sendApiError(res, error, "Error recording listening history");
+        }
+      }
+    );
+
+    // Listening report for a month (`YYYY-MM`) or year (`YYYY`), as JSON
+    // or as a self-contained page with ?format=html
+    app.get(
+      "/api/reports/:period",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const period = parseReportPeriod(req.params.period);
+        if (!period) {
+          return res
+            .status(400)
+            .json({ error: "period must be YYYY or YYYY-MM" });
+        }
+        const format = req.query.format ?? "json";
+        if (format !== "json" && format !== "html") {
+          return res.status(400).json({ error: "format must be json or html" });
+        }
+
+        try {
+          const report = await listeningReports.getReport(
+            period,
+            getUserId(req)
+          );
+          if (format === "html") {
+            return res.type("html").send(renderReportHtml(report));
+          }
+          res.json(report);
+        } catch (error) {
+          sendApiError(res, error, "Error generating listening report");
+        }
+      }
+    );
+
+    // Save a report's top tracks as a new playlist
+    app.post(
+      "/api/reports/:period/playlist",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const period = parseReportPeriod(req.params.period);
+        if (!period) {
+          return res
+            .status(400)
+            .json({ error: "period must be YYYY or YYYY-MM" });
+        }
+        const { name, public: isPublic } = req.body ?? {};
+        if (name !== undefined && (typeof name !== "string" || !name)) {
+          return res.status(400).json({ error: "name must be a string" });
+        }
+        if (isPublic !== undefined && typeof isPublic !== "boolean") {
+          return res.status(400).json({ error: "public must be a boolean" });
+        }
+
+        try {
+          const result = await listeningReports.saveTopTracks(
+            period,
+            {
+              ...(name !== undefined && { name }),
+              ...(isPublic !== undefined && { public: isPublic }),
+            },
+            getUserId(req)
+          );
+          res.status(201).json(result);
+        } catch (error) {
+          sendApiError(res, error, "Error saving report playlist");
+        }
+      }
+    );
+
+    // Default buckets micro-genres are collapsed into
+    app.get(
+      "/api/genres/buckets",
+      requireAuth,
+      (req: Request, res: Response) => {
+        res.json(DEFAULT_GENRE_BUCKETS);
+      }
+    );
+
+    // Genres and genre bucket of every track in a playlist; custom buckets
+    // may be passed as JSON in the buckets query parameter
+    app.get(
+      "/api/playlists/:id/genres",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        let buckets: unknown = DEFAULT_GENRE_BUCKETS;
+        if (req.query.buckets !== undefined) {
+          try {
+            buckets = JSON.parse(String(req.query.buckets));
+          } catch {
+            buckets = null;
+          }
+        }
+        if (!isGenreBuckets(buckets)) {
+          return res.status(400).json({ error: GENRE_BUCKETS_ERROR });
+        }
+
+        try {
+          const report = await playlistGenres.tag(
+            req.params.id,
+            buckets,
+            getUserId(req)
+          );
+          res.json(report);
+        } catch (error) {
+          sendApiError(res, error, "Error tagging playlist genres");
+        }
+      }
+    );
+
+    // Split a playlist into one new playlist per genre bucket; preview or
+    // apply
+    app.post(
+      "/api/playlists/:id/split-by-genre",
+      requireAuth,
+      async (req: Request, res: Response) => {
+        const { buckets, minSize, preview } = req.body ?? {};
+
+        if (buckets !== undefined && !isGenreBuckets(buckets)) {
+          return res.status(400).json({ error: GENRE_BUCKETS_ERROR });
+        }
+        if (
+          minSize !== undefined &&
+          (!Number.isInteger(minSize) || minSize < 1)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "minSize must be a positive integer" });
+        }
+
+        const playlistId = req.params.id;
+        const userId = getUserId(req);
+        const options = { buckets, minSize };
+
+        try {
+          if (preview) {
+            const plan = await playlistGenres.previewSplit(
+              playlistId,
+              options,
+              userId
+            );
+            return res.json(plan);
+          }
+
+          const job = jobTracker.start("genre-split", userId, (onProgress) =>
+            playlistGenres.split(playlistId, options, userId, onProgress)
+          );
+          res.status(202).json({ jobId: job.id, status: job.status });
+        } catch (error) {
+          sendApiError(res, error, "Error splitting playlist by genre");
+        }
+      }
+    );
+  }
+
+  // Health check endpoint that doesn't require Redis
+  app.get("/health", (req: Request, res: Response) => {
+    const healthData = {
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      redis: {
+        available: redisAvailable,
+        secureState: secureStateManager.getRedisStatus(),
+        tokenStorage: tokenStorage.getRedisStatus(),
+        apiCache: apiCache.getRedisStatus(),
+        rateLimiter: rateLimiter.getRedisStatus(),
+      },
+      uptime: process.uptime(),
+    };
+
+    res.json(healthData);
+  });
+
+  // Add these methods to each of your Redis utilities
+  // For example, in secureStateManager.ts:
+
+  // Serve index.html for client-side routing
+  app.get(["/", "/playlists"], (req: Request, res: Response) => {
+    res.sendFile(path.join(__dirname, "..", "public", "index.html"));
+  });
+
+  console.log("Setting up routes completed");
+  console.log("Starting HTTP server...");
+
+  const host = config.isProduction ? "0.0.0.0" : "localhost";
+
+  const server = app.listen(config.port, host, () => {
+    console.log(`Server running at http://${host}:${config.port}`);
+    if (!config.isProduction) open(`http://localhost:${config.port}`);
+  });
+
+  // Background tasks, stopped again on shutdown
+  listeningHistory.startRecorder();
 
   // Add timeout handling
   server.setTimeout(30000); // 30 second timeout
@@ -1008,6 +3178,9 @@ async function startServer(): Promise<any> {
   // Handle graceful shutdown to close Redis connections
   process.on("SIGINT", async () => {
     console.log("Shutting down gracefully...");
+    smartPlaylists.stopScheduler();
+    nowPlaying.close();
+    listeningHistory.stopRecorder();
 
     if (redisAvailable) {
       // Close all Redis connections
@@ -1015,6 +3188,11 @@ async function startServer(): Promise<any> {
         tokenStorage.close && tokenStorage.close(),
         apiCache.close && apiCache.close(),
         rateLimiter.close && rateLimiter.close(),
+        smartPlaylistStore.close && smartPlaylistStore.close(),
+        playlistHistoryStore.close && playlistHistoryStore.close(),
+        libraryIndexStore.close && libraryIndexStore.close(),
+        blocklistStore.close && blocklistStore.close(),
+        listeningHistoryStore.close && listeningHistoryStore.close(),
       ]).catch((err) => console.error("Error closing Redis connections:", err));
 
       console.log("Redis connections closed.");
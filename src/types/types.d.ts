@@ -87,9 +87,7 @@ export interface PlaylistTracksRef {
 export interface SpotifyPlaylist {
   collaborative: boolean;
   description: string | null;
-  external_urls: {
-    spotify: string;
-  };
+  external_urls: SpotifyExternalUrls;
   href: string;
   id: string;
   images: SpotifyImage[];
@@ -103,11 +101,11 @@ export interface SpotifyPlaylist {
 }
 
 /**
- * Interface for Spotify playlists response
+ * Generic Spotify paging object
  */
-export interface SpotifyPlaylistsResponse {
+export interface SpotifyPagingObject<T> {
   href: string;
-  items: SpotifyPlaylist[];
+  items: T[];
   limit: number;
   next: string | null;
   offset: number;
@@ -115,10 +113,1198 @@ export interface SpotifyPlaylistsResponse {
   total: number;
 }
 
+/**
+ * Interface for Spotify playlists response
+ */
+export type SpotifyPlaylistsResponse = SpotifyPagingObject<SpotifyPlaylist>;
+
+/**
+ * Spotify external URL map
+ */
+export interface SpotifyExternalUrls {
+  spotify: string;
+}
+
+/**
+ * Content restriction applied to a track, album or episode
+ */
+export interface SpotifyRestrictions {
+  reason: "market" | "product" | "explicit" | string;
+}
+
+/**
+ * Interface for simplified Spotify artist object
+ */
+export interface SpotifyArtistSimplified {
+  external_urls: SpotifyExternalUrls;
+  href: string;
+  id: string;
+  name: string;
+  type: "artist";
+  uri: string;
+}
+
+/**
+ * Interface for full Spotify artist object
+ */
+export interface SpotifyArtist extends SpotifyArtistSimplified {
+  followers: {
+    href: string | null;
+    total: number;
+  };
+  genres: string[];
+  images: SpotifyImage[];
+  popularity: number;
+}
+
+/**
+ * Interface for simplified Spotify album object
+ */
+export interface SpotifyAlbumSimplified {
+  album_type: "album" | "single" | "compilation";
+  artists: SpotifyArtistSimplified[];
+  available_markets?: string[];
+  external_urls: SpotifyExternalUrls;
+  href: string;
+  id: string;
+  images: SpotifyImage[];
+  name: string;
+  release_date: string;
+  release_date_precision: "year" | "month" | "day";
+  restrictions?: SpotifyRestrictions;
+  total_tracks: number;
+  type: "album";
+  uri: string;
+}
+
+/**
+ * Interface for full Spotify album object
+ */
+export interface SpotifyAlbum extends SpotifyAlbumSimplified {
+  copyrights: { text: string; type: string }[];
+  external_ids: SpotifyExternalIds;
+  genres: string[];
+  label: string;
+  popularity: number;
+  tracks: SpotifyPagingObject<SpotifyTrackSimplified>;
+}
+
+/**
+ * External identifiers of a track or album
+ */
+export interface SpotifyExternalIds {
+  isrc?: string;
+  ean?: string;
+  upc?: string;
+}
+
+/**
+ * Interface for simplified Spotify track object (as nested in albums)
+ */
+export interface SpotifyTrackSimplified {
+  artists: SpotifyArtistSimplified[];
+  available_markets?: string[];
+  disc_number: number;
+  duration_ms: number;
+  explicit: boolean;
+  external_urls: SpotifyExternalUrls;
+  href: string;
+  id: string;
+  is_local: boolean;
+  is_playable?: boolean;
+  linked_from?: {
+    external_urls: SpotifyExternalUrls;
+    href: string;
+    id: string;
+    type: "track";
+    uri: string;
+  };
+  name: string;
+  preview_url: string | null;
+  restrictions?: SpotifyRestrictions;
+  track_number: number;
+  type: "track";
+  uri: string;
+}
+
+/**
+ * Interface for full Spotify track object
+ */
+export interface SpotifyTrack extends SpotifyTrackSimplified {
+  album: SpotifyAlbumSimplified;
+  external_ids: SpotifyExternalIds;
+  popularity: number;
+}
+
+/**
+ * Interface for simplified Spotify show object
+ */
+export interface SpotifyShowSimplified {
+  description: string;
+  explicit: boolean;
+  external_urls: SpotifyExternalUrls;
+  href: string;
+  id: string;
+  images: SpotifyImage[];
+  media_type: string;
+  name: string;
+  publisher: string;
+  total_episodes: number;
+  type: "show";
+  uri: string;
+}
+
+/**
+ * Interface for simplified Spotify episode object
+ */
+export interface SpotifyEpisodeSimplified {
+  audio_preview_url: string | null;
+  description: string;
+  duration_ms: number;
+  explicit: boolean;
+  external_urls: SpotifyExternalUrls;
+  href: string;
+  id: string;
+  images: SpotifyImage[];
+  is_externally_hosted: boolean;
+  is_playable: boolean;
+  languages: string[];
+  name: string;
+  release_date: string;
+  release_date_precision: "year" | "month" | "day";
+  restrictions?: SpotifyRestrictions;
+  resume_point?: {
+    fully_played: boolean;
+    resume_position_ms: number;
+  };
+  type: "episode";
+  uri: string;
+}
+
+/**
+ * Interface for full Spotify episode object
+ */
+export interface SpotifyEpisode extends SpotifyEpisodeSimplified {
+  show: SpotifyShowSimplified;
+}
+
+/**
+ * Interface for Spotify audio features of a track
+ */
+export interface SpotifyAudioFeatures {
+  acousticness: number;
+  analysis_url: string;
+  danceability: number;
+  duration_ms: number;
+  energy: number;
+  id: string;
+  instrumentalness: number;
+  /** Pitch class (0 = C, 1 = C♯/D♭, ...), -1 if no key was detected */
+  key: number;
+  liveness: number;
+  loudness: number;
+  /** 1 = major, 0 = minor */
+  mode: number;
+  speechiness: number;
+  tempo: number;
+  time_signature: number;
+  track_href: string;
+  type: "audio_features";
+  uri: string;
+  valence: number;
+}
+
+/**
+ * Content of a playlist entry, discriminated by `type`
+ */
+export type PlaylistItemContent = SpotifyTrack | SpotifyEpisode;
+
+/**
+ * Interface for an entry in a playlist's track list
+ */
+export interface PlaylistTrackItem<
+  T extends PlaylistItemContent = PlaylistItemContent
+> {
+  /** When the item was added; null for very old playlists */
+  added_at: string | null;
+
+  /** Who added the item; null for very old playlists */
+  added_by: Pick<
+    SpotifyUser,
+    "external_urls" | "href" | "id" | "type" | "uri"
+  > | null;
+
+  is_local: boolean;
+
+  /** The track or episode; null if it was removed from the catalog */
+  track: T | null;
+}
+
+/**
+ * Interface for Spotify playlist tracks response
+ */
+export type SpotifyPlaylistTracksResponse =
+  SpotifyPagingObject<PlaylistTrackItem>;
+
+/**
+ * Interface for a track saved in the user's library (Liked Songs)
+ */
+export interface SpotifySavedTrack {
+  added_at: string;
+  track: SpotifyTrack;
+}
+
+/**
+ * Interface for an album in the user's library
+ */
+export interface SpotifySavedAlbum {
+  added_at: string;
+  album: SpotifyAlbum;
+}
+
+/**
+ * Interface for full Spotify playlist object, including the first page of items
+ */
+export interface SpotifyPlaylistFull
+  extends Omit<SpotifyPlaylist, "tracks"> {
+  followers: {
+    href: string | null;
+    total: number;
+  };
+  tracks: SpotifyPlaylistTracksResponse;
+}
+
+/**
+ * Item types accepted by the search endpoint, mapped to their result objects
+ */
+export interface SpotifySearchResultTypes {
+  album: SpotifyAlbumSimplified;
+  artist: SpotifyArtist;
+  episode: SpotifyEpisodeSimplified;
+  playlist: SpotifyPlaylist | null;
+  show: SpotifyShowSimplified;
+  track: SpotifyTrack;
+}
+
+export type SpotifySearchType = keyof SpotifySearchResultTypes;
+
+/**
+ * Interface for Spotify search response; one paging object per requested type
+ */
+export type SpotifySearchResponse<
+  K extends SpotifySearchType = SpotifySearchType
+> = {
+  [P in K as `${P}s`]?: SpotifyPagingObject<SpotifySearchResultTypes[P]>;
+};
+
+/**
+ * Details that can be set when creating or updating a playlist
+ */
+export interface PlaylistDetails {
+  name?: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+/**
+ * A track to remove from a playlist, optionally pinned to specific positions
+ */
+export interface PlaylistTrackRemoval {
+  uri: string;
+  positions?: number[];
+}
+
+/**
+ * Response returned by Spotify for playlist track modifications
+ */
+export interface PlaylistSnapshotResponse {
+  snapshot_id: string;
+}
+
+/**
+ * Per-call retry settings for requests made through SpotifyClient
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts?: number;
+
+  /** Give up once this many milliseconds have passed since the call started */
+  deadlineMs?: number;
+
+  /** Base delay for exponential backoff on 5xx responses */
+  baseDelayMs?: number;
+
+  /** Upper bound for a single backoff delay */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for auto-paginating iterators over Spotify paging objects
+ */
+export interface PaginationOptions extends RetryOptions {
+  /** Number of items requested per page (defaults to the endpoint maximum) */
+  pageSize?: number;
+
+  /** Stop after this many items have been yielded */
+  maxItems?: number;
+
+  /** Signal used to cancel iteration between pages */
+  signal?: AbortSignal;
+
+  /**
+   * Market to relink tracks for; "from_token" uses the user's country and
+   * makes Spotify report `is_playable` and `restrictions`
+   */
+  market?: string;
+}
+
+/**
+ * Options for search requests
+ */
+export interface SearchOptions extends RetryOptions {
+  /** Only return content playable in this market ("from_token" for the user's) */
+  market?: string;
+}
+
+/**
+ * Track attributes the recommendations endpoint can be tuned by
+ */
+export type TunableAttribute =
+  | "acousticness"
+  | "danceability"
+  | "energy"
+  | "instrumentalness"
+  | "liveness"
+  | "loudness"
+  | "popularity"
+  | "speechiness"
+  | "tempo"
+  | "valence";
+
+/**
+ * Seeds and tuning for a recommendations request
+ */
+export interface RecommendationRequest {
+  seedTracks?: string[];
+  seedArtists?: string[];
+  seedGenres?: string[];
+  limit?: number;
+  market?: string;
+  /** e.g. { min_energy: 0.4, target_tempo: 120 } */
+  attributes?: Partial<
+    Record<`${"min" | "max" | "target"}_${TunableAttribute}`, number>
+  >;
+}
+
+/**
+ * Interface for a play in the user's recently played tracks
+ */
+export interface SpotifyPlayHistoryItem {
+  track: SpotifyTrack;
+  played_at: string;
+  context: { type: string; href: string; uri: string } | null;
+}
+
+/**
+ * Interface for recently played response, paged by timestamp cursors
+ */
+export interface SpotifyRecentlyPlayedResponse {
+  href: string;
+  items: SpotifyPlayHistoryItem[];
+  limit: number;
+  next: string | null;
+  cursors: { after: string; before: string } | null;
+  total?: number;
+}
+
+/**
+ * Interface for recommendations response
+ */
+export interface SpotifyRecommendationsResponse {
+  seeds: {
+    id: string;
+    type: "artist" | "track" | "genre";
+    href: string | null;
+    initialPoolSize: number;
+    afterFilteringSize: number;
+    afterRelinkingSize: number;
+  }[];
+  tracks: SpotifyTrack[];
+}
+
 /**
  * Interface for auth status response
  */
 export interface AuthStatusResponse {
   authenticated: boolean;
   expiresAt?: string;
-}
\ No newline at end of file
+}
+/**
+ * How two playlist entries were matched as duplicates
+ * - exact: same Spotify URI
+ * - isrc: same recording (ISRC) released under different URIs
+ * - fuzzy: same normalized title and primary artist
+ */
+export type DuplicateKind = "exact" | "isrc" | "fuzzy";
+
+/**
+ * A single playlist entry that is part of a duplicate group
+ */
+export interface DuplicateEntry {
+  uri: string;
+  position: number;
+  name: string;
+  artists: string[];
+  album: string;
+  added_at: string | null;
+}
+
+/**
+ * A set of playlist entries considered duplicates of each other
+ */
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  key: string;
+  /** Entry suggested to keep (the earliest occurrence) */
+  keep: DuplicateEntry;
+  /** Remaining entries, suggested for removal */
+  duplicates: DuplicateEntry[];
+}
+
+/**
+ * Result of scanning a playlist for duplicates
+ */
+export interface DuplicateReport {
+  playlistId: string;
+  snapshotId: string;
+  totalTracks: number;
+  groups: DuplicateGroup[];
+}
+
+/**
+ * Status of a long-running background job
+ */
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  userId: string;
+  status: "running" | "completed" | "failed";
+  progress: {
+    completed: number;
+    total: number;
+  };
+  result?: T;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Callback used by long-running operations to report progress
+ */
+export type ProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * Fields a playlist can be sorted by
+ */
+export type SortField =
+  | "tempo"
+  | "energy"
+  | "danceability"
+  | "release_date"
+  | "popularity"
+  | "added_at"
+  | "artist"
+  | "album";
+
+/**
+ * A single sort key with direction
+ */
+export interface SortKey {
+  field: SortField;
+  direction?: "asc" | "desc";
+}
+
+/**
+ * A playlist entry in a proposed new order
+ */
+export interface OrderedEntry {
+  /** Position of the entry in the playlist before reordering */
+  position: number;
+  uri: string | null;
+  name: string | null;
+  artists: string[];
+}
+
+/**
+ * A proposed new order for a playlist and the moves needed to apply it
+ */
+export interface ReorderPlan {
+  playlistId: string;
+  snapshotId: string;
+  order: OrderedEntry[];
+  /** Number of reorder calls needed to apply the new order */
+  moves: number;
+}
+
+/**
+ * Set operation applied across playlists
+ * - union: tracks in any source
+ * - intersection: tracks in every source
+ * - difference: tracks in the first source but in none of the others
+ * - symmetric_difference: tracks in exactly one source
+ */
+export type SetOperation =
+  | "union"
+  | "intersection"
+  | "difference"
+  | "symmetric_difference";
+
+/**
+ * How tracks from different sources are considered equal
+ */
+export type TrackMatchKey = "uri" | "isrc";
+
+/**
+ * Input for a playlist set operation
+ */
+export interface SetOperationRequest {
+  /** Playlist IDs, or "liked" for the user's Liked Songs */
+  sources: string[];
+  operation: SetOperation;
+  matchBy?: TrackMatchKey;
+  /** Existing playlist to write to; a new playlist is created if omitted */
+  targetPlaylistId?: string;
+  /** Details for the new playlist when no target is given */
+  targetDetails?: PlaylistDetails;
+  /** Replace the target's tracks instead of appending missing ones */
+  replace?: boolean;
+}
+
+/**
+ * Result of a playlist set operation
+ */
+export interface SetOperationResult {
+  operation: SetOperation;
+  uris: string[];
+  playlistId?: string;
+  snapshot_id?: string;
+  /** Number of tracks written to the target playlist */
+  added?: number;
+}
+
+/**
+ * A stored smart playlist rule
+ */
+export interface SmartPlaylistRule {
+  id: string;
+  name: string;
+  /** Rule in the smart playlist query language */
+  query: string;
+  /** Playlist the rule is synced into; created on first sync if missing */
+  targetPlaylistId?: string;
+  /** Sync automatically every N minutes */
+  scheduleMinutes?: number;
+  lastSyncedAt?: string;
+  lastSyncError?: string;
+  /** When the last sync started, whether or not it succeeded */
+  lastSyncAttemptAt?: string;
+  /** Failed syncs since the last successful one */
+  syncFailures?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A track as stored in a playlist version
+ */
+export interface PlaylistVersionTrack {
+  uri: string;
+  name: string;
+  artists: string[];
+}
+
+/**
+ * The full ordered track list of a playlist at one snapshot
+ */
+export interface PlaylistVersion {
+  playlistId: string;
+  snapshotId: string;
+  name: string;
+  recordedAt: string;
+  tracks: PlaylistVersionTrack[];
+}
+
+export type PlaylistVersionSummary = Omit<PlaylistVersion, "tracks"> & {
+  trackCount: number;
+};
+
+/**
+ * Differences between two versions of a playlist. Positions refer to the
+ * version the track appears in; moved tracks changed their relative order.
+ */
+export interface PlaylistVersionDiff {
+  playlistId: string;
+  from: string;
+  to: string;
+  added: (PlaylistVersionTrack & { position: number })[];
+  removed: (PlaylistVersionTrack & { position: number })[];
+  moved: (PlaylistVersionTrack & { from: number; to: number })[];
+}
+
+/**
+ * File formats playlists can be exported to
+ */
+export type ExportFormat = "csv" | "json" | "m3u8" | "xspf";
+
+/**
+ * A playlist entry flattened for export
+ */
+export interface ExportedTrack {
+  position: number;
+  uri: string | null;
+  url: string | null;
+  name: string | null;
+  artists: string[];
+  album: string | null;
+  duration_ms: number | null;
+  isrc: string | null;
+  added_at: string | null;
+  is_local: boolean;
+}
+
+/**
+ * File formats playlists can be imported from
+ */
+export type ImportFormat = "csv" | "m3u" | "text";
+
+/**
+ * A line of an imported file, parsed into what is known about the track
+ */
+export interface ImportEntry {
+  /** 1-based line in the uploaded file */
+  line: number;
+  title: string;
+  artist: string;
+  album?: string;
+  isrc?: string;
+  durationMs?: number;
+  /** Spotify track URI given directly in the file */
+  uri?: string;
+}
+
+/**
+ * A Spotify track considered as a match for an imported entry
+ */
+export interface ImportCandidate {
+  uri: string;
+  name: string;
+  artists: string[];
+  album: string;
+  duration_ms: number;
+  /** Match confidence between 0 and 1 */
+  score: number;
+}
+
+/**
+ * Result of matching one imported entry
+ * - matched: a single confident match
+ * - ambiguous: plausible candidates that need confirmation
+ * - not_found: no plausible candidate
+ */
+export interface ImportMatch {
+  entry: ImportEntry;
+  status: "matched" | "ambiguous" | "not_found";
+  match: ImportCandidate | null;
+  alternatives: ImportCandidate[];
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  matched: number;
+  ambiguous: number;
+  notFound: number;
+  rows: ImportMatch[];
+}
+
+/**
+ * Summary of a numeric value across a playlist's tracks
+ */
+export interface StatDistribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  /** Equal-width buckets; the last bucket includes its upper bound */
+  histogram: { from: number; to: number; count: number }[];
+}
+
+/**
+ * Analytics of a playlist's contents
+ */
+export interface PlaylistStats {
+  playlistId: string;
+  snapshotId: string;
+  name: string;
+  generatedAt: string;
+  trackCount: number;
+  episodeCount: number;
+  localCount: number;
+  /** Entries whose track was removed from the catalog */
+  unavailableCount: number;
+  totalDurationMs: number;
+  artistCount: number;
+  albumCount: number;
+  topArtists: { id: string | null; name: string; count: number }[];
+  /** Track counts keyed by decade, e.g. "1990s" */
+  decades: Record<string, number>;
+  /** Track counts keyed by release year */
+  releaseYears: Record<string, number>;
+  /** Share of tracks marked explicit, between 0 and 1 */
+  explicitRatio: number;
+  averagePopularity: number | null;
+  audioFeatures: Record<string, StatDistribution>;
+  genres: { genre: string; count: number }[];
+  /** Entries per user who added them; null unless the playlist is collaborative */
+  contributors: { id: string; count: number }[] | null;
+}
+
+/**
+ * Problem found by a playlist health scan
+ * - unavailable: greyed out in the user's market
+ * - removed: the track no longer exists in the catalog
+ * - local: a local file, only playable on devices that have it
+ * - relinked: playable, but through a different track ID than the one stored
+ */
+export type PlaylistHealthIssueKind =
+  | "unavailable"
+  | "removed"
+  | "local"
+  | "relinked";
+
+export interface PlaylistHealthIssue {
+  kind: PlaylistHealthIssueKind;
+  position: number;
+  /** URI stored in the playlist */
+  uri: string | null;
+  name: string | null;
+  artists: string[];
+  /** Restriction reason reported by Spotify, e.g. "market" */
+  reason?: string;
+  /** URI Spotify plays instead, for relinked tracks */
+  relinkedTo?: string;
+  /** Best playable alternative, for unavailable tracks */
+  replacement?: ImportCandidate | null;
+}
+
+export interface PlaylistHealthReport {
+  playlistId: string;
+  snapshotId: string;
+  scannedAt: string;
+  total: number;
+  counts: Record<PlaylistHealthIssueKind, number>;
+  issues: PlaylistHealthIssue[];
+}
+
+/**
+ * A playlist's unique tracks as stored in the library overlap index
+ */
+export interface IndexedPlaylist {
+  id: string;
+  name: string;
+  snapshotId: string;
+  indexedAt: string;
+  tracks: PlaylistVersionTrack[];
+}
+
+export interface PlaylistRef {
+  id: string;
+  name: string;
+}
+
+export interface LibraryIndexRefreshResult {
+  playlists: number;
+  fetched: number;
+  unchanged: number;
+  removed: number;
+}
+
+/**
+ * Pairwise overlap of the playlists in the library. `matrix[i][j]` is the
+ * Jaccard similarity of playlists i and j.
+ */
+export interface PlaylistOverlapReport {
+  playlists: (PlaylistRef & { trackCount: number })[];
+  matrix: number[][];
+  /** Most similar pairs first */
+  pairs: { a: PlaylistRef; b: PlaylistRef; shared: number; jaccard: number }[];
+}
+
+export type SharedTrack = PlaylistVersionTrack & { playlists: PlaylistRef[] };
+
+/**
+ * Energy progression of a shuffled playlist
+ * - build_up: lowest energy first, rising to the end
+ * - cool_down: highest energy first, falling to the end
+ */
+export type EnergyArc = "build_up" | "cool_down";
+
+/**
+ * Constraints for a smart shuffle
+ */
+export interface ShuffleOptions {
+  /** Minimum number of other tracks between two tracks by the same artist */
+  artistGap?: number;
+  /** Never place two tracks from the same album back to back */
+  separateAlbums?: boolean;
+  /** Avoid runs of tracks from the same decade */
+  spreadDecades?: boolean;
+  energyArc?: EnergyArc | null;
+  /** Seed of the random order; the same seed reproduces a preview */
+  seed?: number;
+}
+
+/**
+ * A shuffled order for a playlist. Constraints that cannot all be met
+ * are counted in `violations`.
+ */
+export interface ShufflePlan extends ReorderPlan {
+  seed: number;
+  violations: { artist: number; album: number };
+}
+
+/**
+ * A playlist entry in a harmonic mix, with its key in Camelot notation
+ * (e.g. "8A") and its tempo in BPM. Both are null without audio features.
+ */
+export interface HarmonicEntry extends OrderedEntry {
+  camelot: string | null;
+  tempo: number | null;
+}
+
+/**
+ * Compatibility of two consecutive entries of a harmonic mix, from 0
+ * (key clash or large tempo jump) to 1
+ */
+export interface HarmonicTransition {
+  /** Indices into the plan's order */
+  from: number;
+  to: number;
+  keyScore: number;
+  tempoScore: number;
+  score: number;
+}
+
+/**
+ * A DJ-style order for a playlist and how well its transitions mix
+ */
+export interface HarmonicMixPlan extends ReorderPlan {
+  order: HarmonicEntry[];
+  transitions: HarmonicTransition[];
+  averageScore: number;
+  /** Transitions between incompatible keys */
+  clashes: number;
+  /** Entries without key or tempo, placed at the end */
+  unanalyzed: number;
+}
+
+/**
+ * Constraints for generating a playlist of a target length
+ */
+export interface GeneratorRequest {
+  /** Playlist IDs, or "liked" for the user's Liked Songs */
+  sources: string[];
+  durationMs: number;
+  /** Allowed distance from `durationMs`; defaults to 30 seconds */
+  toleranceMs?: number;
+  /** Inclusive BPM range every track must fall in */
+  tempo?: { min: number; max: number };
+  /**
+   * BPM targets spread evenly over the playlist, e.g. [100, 160, 120] to
+   * build up and cool down. Tracks are ordered to follow the curve.
+   */
+  tempoCurve?: number[];
+  energy?: { min?: number; max?: number };
+  /** Seed of the random selection; the same seed reproduces a preview */
+  seed?: number;
+  /** Details for the new playlist */
+  targetDetails?: PlaylistDetails;
+}
+
+export interface GeneratedTrack {
+  uri: string;
+  name: string;
+  artists: string[];
+  durationMs: number;
+  tempo: number | null;
+  energy: number | null;
+}
+
+/**
+ * Tracks picked by the generator and the playlist they were written to
+ */
+export interface GeneratorResult {
+  seed: number;
+  /** Tracks that met the tempo and energy constraints */
+  candidates: number;
+  tracks: GeneratedTrack[];
+  durationMs: number;
+  /** Whether the total duration is within the tolerance of the target */
+  withinTolerance: boolean;
+  playlistId?: string;
+  snapshot_id?: string;
+}
+
+/**
+ * A track suggested to extend a playlist
+ */
+export interface ExtensionSuggestion {
+  uri: string;
+  name: string;
+  artists: string[];
+  album: string;
+}
+
+/**
+ * Recommendations for a playlist, with the seeds and attribute ranges
+ * derived from it
+ */
+export interface PlaylistExtension {
+  playlistId: string;
+  seeds: {
+    tracks: { id: string; name: string }[];
+    artists: { id: string; name: string }[];
+    genres: string[];
+  };
+  attributes: RecommendationRequest["attributes"];
+  suggestions: ExtensionSuggestion[];
+  /** Recommendations dropped because the playlist has them or they are blocked */
+  filtered: { present: number; blocked: number };
+}
+
+/**
+ * A device that can play Spotify
+ */
+export interface SpotifyDevice {
+  id: string | null;
+  is_active: boolean;
+  is_private_session: boolean;
+  is_restricted: boolean;
+  name: string;
+  type: string;
+  volume_percent: number | null;
+  supports_volume: boolean;
+}
+
+export type RepeatMode = "track" | "context" | "off";
+
+/**
+ * What the user's Spotify player is doing
+ */
+export interface SpotifyPlaybackState {
+  device: SpotifyDevice;
+  repeat_state: RepeatMode;
+  shuffle_state: boolean;
+  context: { type: string; href: string; uri: string } | null;
+  timestamp: number;
+  progress_ms: number | null;
+  is_playing: boolean;
+  item: PlaylistItemContent | null;
+  currently_playing_type: "track" | "episode" | "ad" | "unknown";
+}
+
+/**
+ * What to start playing. Without `contextUri` or `uris` playback resumes.
+ */
+export interface PlaybackStartOptions {
+  /** Album, artist or playlist URI to play */
+  contextUri?: string;
+  /** Tracks to play instead of a context */
+  uris?: string[];
+  /** Start at this 0-based position in the context or `uris`... */
+  offset?: number;
+  /** ...or at this track */
+  offsetUri?: string;
+  positionMs?: number;
+  deviceId?: string;
+}
+
+/**
+ * What a user is playing, as pushed to now-playing subscribers
+ */
+export interface NowPlayingState {
+  isPlaying: boolean;
+  progressMs: number | null;
+  track: {
+    uri: string;
+    name: string;
+    /** Artist names, or the show name for episodes */
+    artists: string[];
+    album: string | null;
+    imageUrl: string | null;
+    durationMs: number;
+  } | null;
+  contextUri: string | null;
+  device: { id: string | null; name: string } | null;
+}
+
+export type NowPlayingEvent =
+  | { type: "track-change"; data: NowPlayingState }
+  | {
+      type: "progress";
+      data: { progressMs: number | null; durationMs: number | null };
+    }
+  | { type: "pause" | "play"; data: { progressMs: number | null } }
+  | { type: "error"; data: { error: string; reason?: string } };
+
+/**
+ * A recorded play in the listening history
+ */
+export interface ListeningHistoryEntry {
+  playedAt: string;
+  uri: string;
+  /** Missing on plays recorded before track IDs were stored */
+  trackId?: string;
+  name: string;
+  artists: string[];
+  /** Missing on plays recorded before artist IDs were stored */
+  artistIds?: string[];
+  album: string;
+  durationMs: number;
+  contextUri: string | null;
+}
+
+/**
+ * Filter and page of a listening history query
+ */
+export interface ListeningHistoryQuery {
+  /** Earliest play included (epoch ms) */
+  from?: number;
+  /** Latest play included (epoch ms) */
+  to?: number;
+  offset?: number;
+  limit?: number;
+}
+
+export type SpotifyTimeRange = "short_term" | "medium_term" | "long_term";
+
+export type ReportPeriodType = "month" | "year";
+
+/**
+ * Calendar month or year a listening report covers
+ */
+export interface ReportPeriod {
+  type: ReportPeriodType;
+  /** `YYYY-MM` or `YYYY` */
+  label: string;
+  start: string;
+  /** Exclusive */
+  end: string;
+}
+
+export interface ReportTrack {
+  uri: string;
+  name: string;
+  artists: string[];
+  /** Recorded plays, null when ranked by Spotify */
+  plays: number | null;
+}
+
+export interface ReportArtist {
+  name: string;
+  plays: number | null;
+}
+
+/**
+ * Wrapped-style summary of a month or year of listening
+ */
+export interface ListeningReport {
+  period: ReportPeriod;
+  generatedAt: string;
+  /**
+   * Recorded plays, Spotify's top items, or both for a current period with
+   * recorded plays
+   */
+  source: "history" | "spotify" | "combined";
+  /** Spotify time range used for the top items */
+  timeRange: SpotifyTimeRange | null;
+  plays: number;
+  minutesListened: number | null;
+  topTracks: ReportTrack[];
+  topArtists: ReportArtist[];
+  topGenres: { genre: string; count: number }[];
+  /** Artists and tracks not heard before the period, null if unknown */
+  discoveries: { artists: string[]; tracks: number } | null;
+  mostReplayedDay: {
+    date: string;
+    plays: number;
+    track: { uri: string; name: string; plays: number };
+  } | null;
+  /** Average valence (0 sad to 1 happy) over the period */
+  moodTrend: { label: string; valence: number; tracks: number }[];
+}
+
+/**
+ * Parent genre buckets by name, each with the keywords that put a
+ * micro-genre into it
+ */
+export type GenreBuckets = Record<string, string[]>;
+
+/**
+ * Genres of a playlist track and the bucket they put it in
+ */
+export interface TrackGenres {
+  position: number;
+  uri: string;
+  name: string;
+  artists: string[];
+  genres: string[];
+  bucket: string;
+}
+
+export interface GenreBucketSummary {
+  bucket: string;
+  tracks: number;
+  /** Most frequent micro-genres in the bucket */
+  genres: string[];
+}
+
+/**
+ * Genres of every track in a playlist, grouped into buckets
+ */
+export interface PlaylistGenreReport {
+  playlistId: string;
+  snapshotId: string;
+  tracks: TrackGenres[];
+  /** Largest bucket first */
+  buckets: GenreBucketSummary[];
+}
+
+export interface GenreSplitOptions {
+  /** Replaces the default buckets */
+  buckets?: GenreBuckets;
+  /** Buckets with fewer tracks get no playlist */
+  minSize?: number;
+}
+
+/**
+ * Playlists a genre split would create
+ */
+export interface GenreSplitPlan {
+  playlistId: string;
+  snapshotId: string;
+  playlists: { bucket: string; name: string; uris: string[] }[];
+  skipped: { bucket: string; tracks: number }[];
+}
+
+export interface GenreSplitResult {
+  playlistId: string;
+  playlists: {
+    bucket: string;
+    name: string;
+    playlistId: string;
+    tracks: number;
+  }[];
+  skipped: { bucket: string; tracks: number }[];
+}
@@ -13,6 +13,7 @@ dotenv.config();
 export class ApiCache {
   private redis: Redis | null = null;
   private cachePrefix = "spotify_cache:";
+  private entityPrefix = "spotify_entity:";
   private defaultTtl = 3600; // 1 hour default cache time
 
   // Cache TTL configurations for different endpoint types
@@ -24,6 +25,11 @@ export class ApiCache {
     artists: 86400, // Artists - 24 hours
     albums: 86400, // Albums - 24 hours
     search: 300, // Search results - 5 minutes
+    "audio-features": 604800, // Audio features - 7 days
+    stats: 3600, // Playlist statistics - 1 hour, keyed by snapshot
+    recommendations: 3600, // Recommendations - 1 hour
+    "available-genre-seeds": 604800, // Recommendation genre seeds - 7 days
+    reports: 3600, // Listening reports - 1 hour
   };
 
   /**
@@ -92,7 +98,8 @@ export class ApiCache {
       .update(`${endpoint}?${paramString}`)
       .digest("hex");
 
-    return `${this.cachePrefix}${userId}:${hash}`;
+    // Keep the endpoint readable so entries can be invalidated by path
+    return `${this.cachePrefix}${userId}:${endpoint}:${hash}`;
   }
 
   /**
@@ -156,6 +163,66 @@ export class ApiCache {
     }
   }
 
+  /**
+   * Get individually cached entities (artists, audio features, ...) by ID.
+   * Entities are shared across users since they do not depend on who asks.
+   * @returns Map of the IDs found in cache; null values are cached misses
+   */
+  async getEntities<T>(
+    type: string,
+    ids: string[]
+  ): Promise<Map<string, T | null>> {
+    const found = new Map<string, T | null>();
+    if (!this.redis || ids.length === 0) return found;
+
+    try {
+      const values = await this.redis.mget(
+        ids.map((id) => `${this.entityPrefix}${type}:${id}`)
+      );
+
+      values.forEach((value, index) => {
+        if (value !== null) {
+          found.set(ids[index], JSON.parse(value) as T | null);
+        }
+      });
+    } catch (error) {
+      console.error("Entity cache retrieval error:", error);
+    }
+
+    return found;
+  }
+
+  /**
+   * Cache entities individually by ID
+   */
+  async setEntities<T>(
+    type: string,
+    entities: Map<string, T | null>
+  ): Promise<boolean> {
+    if (!this.redis || entities.size === 0) return false;
+
+    try {
+      const ttl =
+        this.ttlConfig[type as keyof typeof this.ttlConfig] || this.defaultTtl;
+      const pipeline = this.redis.pipeline();
+
+      entities.forEach((entity, id) => {
+        pipeline.set(
+          `${this.entityPrefix}${type}:${id}`,
+          JSON.stringify(entity),
+          "EX",
+          ttl
+        );
+      });
+
+      await pipeline.exec();
+      return true;
+    } catch (error) {
+      console.error("Entity cache storage error:", error);
+      return false;
+    }
+  }
+
   /**
    * Check if a key exists in cache
    */
@@ -196,6 +263,32 @@ export class ApiCache {
     }
   }
 
+  /**
+   * Delete every cache entry for an endpoint and its sub-paths,
+   * e.g. "/playlists/abc" also clears "/playlists/abc/tracks" pages
+   */
+  async invalidate(
+    endpointPrefix: string,
+    userId: string = "default"
+  ): Promise<boolean> {
+    if (!this.redis) return false;
+
+    try {
+      const keys = await this.redis.keys(
+        `${this.cachePrefix}${userId}:${endpointPrefix}*`
+      );
+
+      if (keys.length > 0) {
+        await this.redis.del(...keys);
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Cache invalidation error:", error);
+      return false;
+    }
+  }
+
   /**
    * Clear all cache for a user
    */
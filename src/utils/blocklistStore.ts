@@ -0,0 +1,173 @@
+// File: src/utils/blocklistStore.ts
+
+import * as fs from "fs";
+import Redis from "ioredis";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * BlocklistStore persists the track and artist URIs a user never wants
+ * recommended
+ * Uses Redis for primary storage with file-based fallback
+ */
+export class BlocklistStore {
+  private redis: Redis | null = null;
+  private blocklistPrefix = "spotify_blocklist:";
+  private isProduction: boolean;
+
+  /**
+   * Create a new BlocklistStore instance
+   */
+  constructor() {
+    this.isProduction = process.env.NODE_ENV === "production";
+
+    // Setup Redis if connection string is available
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      try {
+        console.log("Connecting to Redis...");
+
+        // Create a connection timeout
+        const connectionTimeout = setTimeout(() => {
+          console.error("Redis connection timeout after 5 seconds");
+          console.log("Falling back to file storage");
+          this.redis = null;
+        }, 5000); // 5 second timeout
+
+        this.redis = new Redis(redisUrl);
+
+        // Add event listeners for successful connection and errors
+        this.redis.on("connect", () => {
+          clearTimeout(connectionTimeout);
+          console.log("Successfully connected to Redis");
+        });
+
+        this.redis.on("error", (err) => {
+          console.error("Redis connection error:", err);
+          if (this.redis) {
+            this.redis
+              .quit()
+              .catch((e) =>
+                console.error("Error closing Redis connection:", e)
+              );
+            this.redis = null;
+          }
+        });
+      } catch (error) {
+        console.error("Failed to connect to Redis:", error);
+        console.warn("Falling back to file storage");
+        this.redis = null;
+      }
+    } else {
+      console.warn("REDIS_URL not found in environment, using file storage");
+    }
+  }
+
+  private get envSuffix(): string {
+    return this.isProduction ? "prod" : "dev";
+  }
+
+  /**
+   * Redis set holding the blocked URIs of a user
+   */
+  private getBlocklistKey(userId: string): string {
+    return `${this.blocklistPrefix}${this.envSuffix}:${userId}`;
+  }
+
+  /**
+   * File holding the blocklists of all users when Redis is unavailable
+   */
+  private getBlocklistFile(): string {
+    return `.spotify-blocklist-${this.envSuffix}.json`;
+  }
+
+  private readFile(): Record<string, string[]> {
+    const file = this.getBlocklistFile();
+    if (!fs.existsSync(file)) return {};
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  private writeFile(data: Record<string, string[]>): void {
+    fs.writeFileSync(
+      this.getBlocklistFile(),
+      JSON.stringify(data, null, 2),
+      "utf8"
+    );
+  }
+
+  /**
+   * List the blocked URIs of a user
+   */
+  async list(userId: string = "default"): Promise<string[]> {
+    try {
+      if (this.redis) {
+        return (await this.redis.smembers(this.getBlocklistKey(userId))).sort();
+      }
+
+      return this.readFile()[userId] ?? [];
+    } catch (error) {
+      console.error("Failed to list blocklist:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Block track or artist URIs
+   */
+  async add(uris: string[], userId: string = "default"): Promise<void> {
+    try {
+      if (this.redis) {
+        await this.redis.sadd(this.getBlocklistKey(userId), ...uris);
+      } else {
+        const data = this.readFile();
+        data[userId] = Array.from(
+          new Set([...(data[userId] ?? []), ...uris])
+        ).sort();
+        this.writeFile(data);
+      }
+    } catch (error) {
+      console.error("Failed to update blocklist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unblock URIs
+   * @returns Number of URIs that were blocked
+   */
+  async remove(uris: string[], userId: string = "default"): Promise<number> {
+    try {
+      if (this.redis) {
+        return await this.redis.srem(this.getBlocklistKey(userId), ...uris);
+      }
+
+      const data = this.readFile();
+      const current = data[userId] ?? [];
+      data[userId] = current.filter((uri) => !uris.includes(uri));
+      this.writeFile(data);
+      return current.length - data[userId].length;
+    } catch (error) {
+      console.error("Failed to update blocklist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close Redis connection when shutting down
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      console.log("Redis blocklist store connection closed");
+    }
+  }
+
+  getRedisStatus = (): boolean => {
+    return this.redis !== null;
+  };
+}
+
+// Create and export default instance
+const blocklistStore = new BlocklistStore();
+export default blocklistStore;
@@ -0,0 +1,87 @@
+// File: src/utils/jobTracker.ts
+
+import { v4 as uuidv4 } from "uuid";
+import { Job, ProgressCallback } from "../types/types";
+
+/**
+ * JobTracker runs long playlist operations in the background and keeps
+ * their progress in memory so clients can poll it
+ */
+export class JobTracker {
+  private jobs = new Map<string, Job>();
+
+  // Finished jobs are kept for an hour
+  private retentionMs = 60 * 60 * 1000;
+
+  /**
+   * Start a job; `run` receives a callback to report its progress
+   */
+  start<T>(
+    type: string,
+    userId: string,
+    run: (onProgress: ProgressCallback) => Promise<T>
+  ): Job<T> {
+    this.cleanExpiredJobs();
+
+    const now = new Date().toISOString();
+    const job: Job<T> = {
+      id: uuidv4(),
+      type,
+      userId,
+      status: "running",
+      progress: { completed: 0, total: 0 },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+
+    const onProgress: ProgressCallback = (completed, total) => {
+      job.progress = { completed, total };
+      job.updatedAt = new Date().toISOString();
+    };
+
+    run(onProgress)
+      .then((result) => {
+        job.status = "completed";
+        job.result = result;
+      })
+      .catch((error) => {
+        console.error(`Job ${job.id} (${type}) failed:`, error);
+        job.status = "failed";
+        job.error = error?.message || String(error);
+      })
+      .finally(() => {
+        job.updatedAt = new Date().toISOString();
+      });
+
+    console.log(`Started ${type} job ${job.id} for user ${userId}`);
+    return job;
+  }
+
+  /**
+   * Get a job, only if it belongs to the given user
+   */
+  get(jobId: string, userId: string = "default"): Job | null {
+    const job = this.jobs.get(jobId);
+    return job && job.userId === userId ? job : null;
+  }
+
+  /**
+   * Drop finished jobs past the retention period
+   */
+  private cleanExpiredJobs(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.jobs.forEach((job, id) => {
+      if (
+        job.status !== "running" &&
+        new Date(job.updatedAt).getTime() < cutoff
+      ) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+// Create and export default instance
+const jobTracker = new JobTracker();
+export default jobTracker;
@@ -0,0 +1,207 @@
+// File: src/utils/libraryIndexStore.ts
+
+import Redis from "ioredis";
+import * as dotenv from "dotenv";
+import { IndexedPlaylist } from "../types/types";
+
+dotenv.config();
+
+/**
+ * LibraryIndexStore keeps the per-user playlist overlap index
+ * Uses Redis for primary storage with in-memory fallback
+ */
+export class LibraryIndexStore {
+  private redis: Redis | null = null;
+  private indexPrefix = "spotify_library_index:";
+  private isProduction: boolean;
+
+  // Fallback storage: userId -> playlistId -> serialized entry
+  private memory = new Map<string, Map<string, string>>();
+
+  // Fallback storage: userId -> when the last refresh completed
+  private memoryIndexedAt = new Map<string, string>();
+
+  /**
+   * Create a new LibraryIndexStore instance
+   */
+  constructor() {
+    this.isProduction = process.env.NODE_ENV === "production";
+
+    // Setup Redis if connection string is available
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      try {
+        console.log("Connecting to Redis...");
+
+        // Create a connection timeout
+        const connectionTimeout = setTimeout(() => {
+          console.error("Redis connection timeout after 5 seconds");
+          console.log("Falling back to memory storage");
+          this.redis = null;
+        }, 5000); // 5 second timeout
+
+        this.redis = new Redis(redisUrl);
+
+        // Add event listeners for successful connection and errors
+        this.redis.on("connect", () => {
+          clearTimeout(connectionTimeout);
+          console.log("Successfully connected to Redis");
+        });
+
+        this.redis.on("error", (err) => {
+          console.error("Redis connection error:", err);
+          if (this.redis) {
+            this.redis
+              .quit()
+              .catch((e) =>
+                console.error("Error closing Redis connection:", e)
+              );
+            this.redis = null;
+          }
+        });
+      } catch (error) {
+        console.error("Failed to connect to Redis:", error);
+        console.warn("Falling back to memory storage");
+        this.redis = null;
+      }
+    } else {
+      console.warn("REDIS_URL not found in environment, using memory storage");
+    }
+  }
+
+  /**
+   * Redis hash holding a user's indexed playlists, keyed by playlist ID
+   */
+  private getIndexKey(userId: string): string {
+    const env = this.isProduction ? "prod" : "dev";
+    return `${this.indexPrefix}${env}:${userId}`;
+  }
+
+  /**
+   * Redis key holding when a user's index last finished refreshing
+   */
+  private getIndexedAtKey(userId: string): string {
+    return `${this.getIndexKey(userId)}:indexed_at`;
+  }
+
+  /**
+   * When a user's index last finished refreshing
+   * @returns An ISO timestamp, or null if it never has
+   */
+  async getIndexedAt(userId: string = "default"): Promise<string | null> {
+    try {
+      return this.redis
+        ? await this.redis.get(this.getIndexedAtKey(userId))
+        : this.memoryIndexedAt.get(userId) ?? null;
+    } catch (error) {
+      console.error("Failed to read library index time:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark a user's index as refreshed, even if the library is empty
+   */
+  async setIndexedAt(
+    indexedAt: string,
+    userId: string = "default"
+  ): Promise<void> {
+    try {
+      if (this.redis) {
+        await this.redis.set(this.getIndexedAtKey(userId), indexedAt);
+      } else {
+        this.memoryIndexedAt.set(userId, indexedAt);
+      }
+    } catch (error) {
+      console.error("Failed to save library index time:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every indexed playlist of a user
+   */
+  async getAll(userId: string = "default"): Promise<IndexedPlaylist[]> {
+    try {
+      const data = this.redis
+        ? await this.redis.hgetall(this.getIndexKey(userId))
+        : Object.fromEntries(this.memory.get(userId) ?? []);
+
+      return Object.values(data).map(
+        (entry) => JSON.parse(entry) as IndexedPlaylist
+      );
+    } catch (error) {
+      console.error("Failed to read library index:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Store or replace indexed playlists
+   */
+  async save(
+    playlists: IndexedPlaylist[],
+    userId: string = "default"
+  ): Promise<void> {
+    if (playlists.length === 0) return;
+
+    try {
+      if (this.redis) {
+        await this.redis.hset(
+          this.getIndexKey(userId),
+          Object.fromEntries(
+            playlists.map((playlist) => [playlist.id, JSON.stringify(playlist)])
+          )
+        );
+      } else {
+        const entries = this.memory.get(userId) ?? new Map<string, string>();
+        playlists.forEach((playlist) =>
+          entries.set(playlist.id, JSON.stringify(playlist))
+        );
+        this.memory.set(userId, entries);
+      }
+    } catch (error) {
+      console.error("Failed to save library index:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop playlists from the index
+   */
+  async remove(
+    playlistIds: string[],
+    userId: string = "default"
+  ): Promise<void> {
+    if (playlistIds.length === 0) return;
+
+    try {
+      if (this.redis) {
+        await this.redis.hdel(this.getIndexKey(userId), ...playlistIds);
+      } else {
+        const entries = this.memory.get(userId);
+        playlistIds.forEach((playlistId) => entries?.delete(playlistId));
+      }
+    } catch (error) {
+      console.error("Failed to remove from library index:", error);
+    }
+  }
+
+  /**
+   * Close Redis connection when shutting down
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      console.log("Redis library index connection closed");
+    }
+  }
+
+  getRedisStatus = (): boolean => {
+    return this.redis !== null;
+  };
+}
+
+// Create and export default instance
+const libraryIndexStore = new LibraryIndexStore();
+export default libraryIndexStore;
@@ -0,0 +1,271 @@
+// File: src/utils/libraryOverlap.ts
+
+import spotifyClient from "./spotifyClient";
+import apiCache from "./apiCache";
+import libraryIndexStore from "./libraryIndexStore";
+import { round } from "./utilHelpers";
+import {
+  IndexedPlaylist,
+  LibraryIndexRefreshResult,
+  PlaylistOverlapReport,
+  PlaylistRef,
+  PlaylistVersionTrack,
+  ProgressCallback,
+  SharedTrack,
+} from "../types/types";
+
+// Number of most similar playlist pairs listed in overlap reports
+const TOP_PAIRS = 50;
+
+/**
+ * A refresh in progress and the callers waiting for its progress
+ */
+interface RunningRefresh {
+  promise: Promise<LibraryIndexRefreshResult>;
+  listeners: Set<ProgressCallback>;
+  // Latest progress, replayed to callers that join late
+  progress?: [number, number];
+}
+
+/**
+ * LibraryOverlap indexes the tracks of every playlist in the user's
+ * library to answer which playlists share tracks
+ */
+export class LibraryOverlap {
+  // Refreshes in progress per user, so concurrent requests share one walk
+  private refreshing = new Map<string, RunningRefresh>();
+
+  /**
+   * Bring the index up to date. Only playlists whose snapshot ID changed
+   * since they were indexed are fetched again. Callers joining a refresh
+   * in progress share it and receive its progress too.
+   */
+  refresh(
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<LibraryIndexRefreshResult> {
+    let refresh = this.refreshing.get(userId);
+    if (!refresh) {
+      const listeners = new Set<ProgressCallback>();
+      const running: RunningRefresh = {
+        listeners,
+        promise: this.runRefresh(userId, (completed, total) => {
+          running.progress = [completed, total];
+          listeners.forEach((listener) => listener(completed, total));
+        }).finally(() => this.refreshing.delete(userId)),
+      };
+      this.refreshing.set(userId, running);
+      refresh = running;
+    }
+
+    if (onProgress) {
+      refresh.listeners.add(onProgress);
+      if (refresh.progress) onProgress(...refresh.progress);
+    }
+    return refresh.promise;
+  }
+
+  /**
+   * Check whether the index has been built for a user
+   */
+  async isIndexed(userId: string = "default"): Promise<boolean> {
+    return (await libraryIndexStore.getIndexedAt(userId)) !== null;
+  }
+
+  /**
+   * Playlists that contain a track
+   */
+  async playlistsContaining(
+    uri: string,
+    userId: string = "default"
+  ): Promise<PlaylistRef[]> {
+    const playlists = await libraryIndexStore.getAll(userId);
+    return playlists
+      .filter((playlist) => playlist.tracks.some((track) => track.uri === uri))
+      .map(({ id, name }) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Jaccard similarity between every pair of playlists
+   */
+  async overlap(userId: string = "default"): Promise<PlaylistOverlapReport> {
+    const playlists = (await libraryIndexStore.getAll(userId)).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+
+    // Count shared tracks per pair through an inverted index, so only
+    // playlists that actually share tracks are compared
+    const shared = playlists.map(() =>
+      new Array<number>(playlists.length).fill(0)
+    );
+    this.invertIndex(playlists).forEach(({ indices }) => {
+      for (let i = 0; i < indices.length; i++) {
+        for (let j = i + 1; j < indices.length; j++) {
+          shared[indices[i]][indices[j]]++;
+          shared[indices[j]][indices[i]]++;
+        }
+      }
+    });
+
+    const matrix = playlists.map((a, i) =>
+      playlists.map((b, j) => {
+        if (i === j) return a.tracks.length > 0 ? 1 : 0;
+        const union = a.tracks.length + b.tracks.length - shared[i][j];
+        return union > 0 ? round(shared[i][j] / union) : 0;
+      })
+    );
+
+    const pairs: PlaylistOverlapReport["pairs"] = [];
+    for (let i = 0; i < playlists.length; i++) {
+      for (let j = i + 1; j < playlists.length; j++) {
+        if (shared[i][j] === 0) continue;
+        pairs.push({
+          a: { id: playlists[i].id, name: playlists[i].name },
+          b: { id: playlists[j].id, name: playlists[j].name },
+          shared: shared[i][j],
+          jaccard: matrix[i][j],
+        });
+      }
+    }
+    pairs.sort((x, y) => y.jaccard - x.jaccard || y.shared - x.shared);
+
+    return {
+      playlists: playlists.map(({ id, name, tracks }) => ({
+        id,
+        name,
+        trackCount: tracks.length,
+      })),
+      matrix,
+      pairs: pairs.slice(0, TOP_PAIRS),
+    };
+  }
+
+  /**
+   * Tracks that appear in at least `minPlaylists` playlists, most
+   * widespread first
+   */
+  async sharedTracks(
+    minPlaylists: number,
+    userId: string = "default"
+  ): Promise<SharedTrack[]> {
+    const playlists = await libraryIndexStore.getAll(userId);
+
+    return Array.from(this.invertIndex(playlists).values())
+      .filter(({ indices }) => indices.length >= minPlaylists)
+      .map(({ track, indices }) => ({
+        ...track,
+        playlists: indices.map((index) => ({
+          id: playlists[index].id,
+          name: playlists[index].name,
+        })),
+      }))
+      .sort(
+        (a, b) =>
+          b.playlists.length - a.playlists.length ||
+          a.name.localeCompare(b.name)
+      );
+  }
+
+  private async runRefresh(
+    userId: string,
+    onProgress: ProgressCallback
+  ): Promise<LibraryIndexRefreshResult> {
+    // Snapshot IDs must be current, so skip the cached playlist list
+    await apiCache.invalidate("/me/playlists", userId);
+    const playlists = await spotifyClient.getAllUserPlaylists(userId);
+    const indexed = new Map(
+      (await libraryIndexStore.getAll(userId)).map((entry) => [entry.id, entry])
+    );
+
+    const changed = playlists.filter(
+      (playlist) =>
+        indexed.get(playlist.id)?.snapshotId !== playlist.snapshot_id
+    );
+    const current = new Set(playlists.map((playlist) => playlist.id));
+    const removed = Array.from(indexed.keys()).filter((id) => !current.has(id));
+
+    onProgress(0, changed.length);
+    for (let i = 0; i < changed.length; i++) {
+      const playlist = changed[i];
+      // Cached pages may predate the new snapshot
+      await apiCache.invalidate(`/playlists/${playlist.id}`, userId);
+      const items = await spotifyClient.getAllPlaylistTracks(
+        playlist.id,
+        userId
+      );
+
+      const tracks = new Map<string, PlaylistVersionTrack>();
+      items.forEach(({ track }) => {
+        if (!track || tracks.has(track.uri)) return;
+        tracks.set(track.uri, {
+          uri: track.uri,
+          name: track.name,
+          artists:
+            track.type === "track"
+              ? track.artists.map((artist) => artist.name)
+              : [],
+        });
+      });
+
+      // Save as we go so an interrupted refresh keeps its progress
+      await libraryIndexStore.save(
+        [
+          {
+            id: playlist.id,
+            name: playlist.name,
+            snapshotId: playlist.snapshot_id,
+            indexedAt: new Date().toISOString(),
+            tracks: Array.from(tracks.values()),
+          },
+        ],
+        userId
+      );
+      onProgress(i + 1, changed.length);
+    }
+
+    await libraryIndexStore.remove(removed, userId);
+    await libraryIndexStore.setIndexedAt(new Date().toISOString(), userId);
+
+    console.log(
+      `Library index for ${userId}: ${changed.length} fetched, ${
+        playlists.length - changed.length
+      } unchanged, ${removed.length} removed`
+    );
+    return {
+      playlists: playlists.length,
+      fetched: changed.length,
+      unchanged: playlists.length - changed.length,
+      removed: removed.length,
+    };
+  }
+
+  /**
+   * Map each track URI to the indices of the playlists containing it
+   */
+  private invertIndex(
+    playlists: IndexedPlaylist[]
+  ): Map<string, { track: PlaylistVersionTrack; indices: number[] }> {
+    const index = new Map<
+      string,
+      { track: PlaylistVersionTrack; indices: number[] }
+    >();
+
+    playlists.forEach((playlist, i) =>
+      playlist.tracks.forEach((track) => {
+        const entry = index.get(track.uri);
+        if (entry) {
+          entry.indices.push(i);
+        } else {
+          index.set(track.uri, { track, indices: [i] });
+        }
+      })
+    );
+
+    return index;
+  }
+}
+
+// Create and export default instance
+const libraryOverlap = new LibraryOverlap();
+export default libraryOverlap;
@@ -0,0 +1,112 @@
+// File: src/utils/listeningHistory.ts
+
+import spotifyClient from "./spotifyClient";
+import tokenStorage from "./tokenStorage";
+import listeningHistoryStore from "./listeningHistoryStore";
+import { ListeningHistoryEntry, SpotifyPlayHistoryItem } from "../types/types";
+
+// Spotify only returns the last 50 plays, about two hours of listening, so
+// the recorder has to look more often than that. Invalid values fall back
+// to 15 minutes, and runs are at least a minute apart.
+const RECORDER_MINUTES = Math.max(
+  parseInt(process.env.HISTORY_RECORDER_MINUTES ?? "15", 10) || 15,
+  1
+);
+const RECORDER_INTERVAL_MS = RECORDER_MINUTES * 60 * 1000;
+
+// Upper bound on recently played pages fetched per user and run
+const MAX_PAGES = 10;
+
+function toHistoryEntry(item: SpotifyPlayHistoryItem): ListeningHistoryEntry {
+  return {
+    playedAt: item.played_at,
+    uri: item.track.uri,
+    trackId: item.track.id,
+    name: item.track.name,
+    artists: item.track.artists.map((artist) => artist.name),
+    artistIds: item.track.artists.map((artist) => artist.id),
+    album: item.track.album.name,
+    durationMs: item.track.duration_ms,
+    contextUri: item.context?.uri ?? null,
+  };
+}
+
+/**
+ * ListeningHistory records every user's recently played tracks into a
+ * permanent log
+ */
+export class ListeningHistory {
+  private recorderTimer: NodeJS.Timeout | null = null;
+  private recorderRunning = false;
+
+  /**
+   * Pull plays newer than the latest recorded one for a user
+   * @returns Number of plays recorded
+   */
+  async record(userId: string = "default"): Promise<number> {
+    let after = (await listeningHistoryStore.getLatestPlayTime(userId)) ?? 0;
+    let recorded = 0;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await spotifyClient.getRecentlyPlayed(after, 50, userId);
+      recorded += await listeningHistoryStore.add(
+        response.items.filter((item) => item.track).map(toHistoryEntry),
+        userId
+      );
+
+      const next = Number(response.cursors?.after);
+      if (!response.next || !Number.isFinite(next) || next <= after) break;
+      after = next;
+    }
+
+    if (recorded > 0) {
+      console.log(`Recorded ${recorded} plays for ${userId}`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Periodically record the plays of every user with stored tokens
+   */
+  startRecorder(): void {
+    if (this.recorderTimer) return;
+
+    const run = () =>
+      this.recordAll().catch((error) =>
+        console.error("Listening history recorder error:", error)
+      );
+    this.recorderTimer = setInterval(run, RECORDER_INTERVAL_MS);
+    run();
+    console.log("Listening history recorder started");
+  }
+
+  /**
+   * Stop the recorder when shutting down
+   */
+  stopRecorder(): void {
+    if (this.recorderTimer) {
+      clearInterval(this.recorderTimer);
+      this.recorderTimer = null;
+    }
+  }
+
+  private async recordAll(): Promise<void> {
+    // Skip this tick if the previous run is still recording
+    if (this.recorderRunning) return;
+    this.recorderRunning = true;
+
+    try {
+      for (const userId of await tokenStorage.listUserIds()) {
+        await this.record(userId).catch((error) =>
+          console.error(`Recording plays of ${userId} failed:`, error)
+        );
+      }
+    } finally {
+      this.recorderRunning = false;
+    }
+  }
+}
+
+// Create and export default instance
+const listeningHistory = new ListeningHistory();
+export default listeningHistory;
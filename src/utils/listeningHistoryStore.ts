@@ -0,0 +1,327 @@
+// File: src/utils/listeningHistoryStore.ts
+
+import * as fs from "fs";
+import Redis from "ioredis";
+import * as dotenv from "dotenv";
+import { ListeningHistoryEntry, ListeningHistoryQuery } from "../types/types";
+
+dotenv.config();
+
+/**
+ * A play is identified by when it started and what was played
+ */
+function getPlayId(entry: ListeningHistoryEntry): string {
+  return `${entry.playedAt}|${entry.uri}`;
+}
+
+/**
+ * ListeningHistoryStore persists every play recorded for a user
+ * Uses Redis for primary storage with an append-only file fallback
+ */
+export class ListeningHistoryStore {
+  private redis: Redis | null = null;
+  private historyPrefix = "spotify_history:";
+  private isProduction: boolean;
+
+  // Plays of the history file by user, oldest first, read on first use
+  private fileEntries: Map<string, ListeningHistoryEntry[]> | null = null;
+  private fileIds = new Set<string>();
+
+  /**
+   * Create a new ListeningHistoryStore instance
+   */
+  constructor() {
+    this.isProduction = process.env.NODE_ENV === "production";
+
+    // Setup Redis if connection string is available
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      try {
+        console.log("Connecting to Redis...");
+
+        // Create a connection timeout
+        const connectionTimeout = setTimeout(() => {
+          console.error("Redis connection timeout after 5 seconds");
+          console.log("Falling back to file storage");
+          this.redis = null;
+        }, 5000); // 5 second timeout
+
+        this.redis = new Redis(redisUrl);
+
+        // Add event listeners for successful connection and errors
+        this.redis.on("connect", () => {
+          clearTimeout(connectionTimeout);
+          console.log("Successfully connected to Redis");
+        });
+
+        this.redis.on("error", (err) => {
+          console.error("Redis connection error:", err);
+          if (this.redis) {
+            this.redis
+              .quit()
+              .catch((e) =>
+                console.error("Error closing Redis connection:", e)
+              );
+            this.redis = null;
+          }
+        });
+      } catch (error) {
+        console.error("Failed to connect to Redis:", error);
+        console.warn("Falling back to file storage");
+        this.redis = null;
+      }
+    } else {
+      console.warn("REDIS_URL not found in environment, using file storage");
+    }
+  }
+
+  private get envSuffix(): string {
+    return this.isProduction ? "prod" : "dev";
+  }
+
+  /**
+   * Sorted set of a user's play IDs, scored by play time (epoch ms)
+   */
+  private getIndexKey(userId: string): string {
+    return `${this.historyPrefix}${this.envSuffix}:${userId}`;
+  }
+
+  /**
+   * Hash of a user's plays by play ID
+   */
+  private getPlaysKey(userId: string): string {
+    return `${this.historyPrefix}${this.envSuffix}:${userId}:plays`;
+  }
+
+  /**
+   * File that plays of all users are appended to when Redis is
+   * unavailable, one JSON object per line
+   */
+  private getHistoryFile(): string {
+    return `.spotify-history-${this.envSuffix}.jsonl`;
+  }
+
+  private loadFile(): Map<string, ListeningHistoryEntry[]> {
+    if (this.fileEntries) return this.fileEntries;
+
+    const entries = new Map<string, ListeningHistoryEntry[]>();
+    const file = this.getHistoryFile();
+    if (fs.existsSync(file)) {
+      fs.readFileSync(file, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .forEach((line) => {
+          const { userId, ...entry } = JSON.parse(line);
+          const id = `${userId}|${getPlayId(entry)}`;
+          if (this.fileIds.has(id)) return;
+          this.fileIds.add(id);
+          const list = entries.get(userId) ?? [];
+          list.push(entry);
+          entries.set(userId, list);
+        });
+      entries.forEach((list) =>
+        list.sort((a, b) => a.playedAt.localeCompare(b.playedAt))
+      );
+    }
+
+    this.fileEntries = entries;
+    return entries;
+  }
+
+  /**
+   * Record plays, skipping any already recorded
+   * @returns Number of plays that were new
+   */
+  async add(
+    entries: ListeningHistoryEntry[],
+    userId: string = "default"
+  ): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    try {
+      if (this.redis) {
+        // Index and data are written together, so a play is never indexed
+        // without its data; rewriting the data of a known play is harmless
+        const multi = this.redis.multi();
+        entries.forEach((entry) => {
+          const id = getPlayId(entry);
+          multi.zadd(
+            this.getIndexKey(userId),
+            "NX",
+            new Date(entry.playedAt).getTime(),
+            id
+          );
+          multi.hset(this.getPlaysKey(userId), id, JSON.stringify(entry));
+        });
+
+        const results = await multi.exec();
+        if (!results) {
+          throw new Error("Listening history transaction was aborted");
+        }
+        let added = 0;
+        for (const [index, [error, result]] of results.entries()) {
+          if (error) throw error;
+          // Every other result is a ZADD, which reports 1 for a new play
+          if (index % 2 === 0 && Number(result) === 1) added++;
+        }
+        return added;
+      }
+
+      const stored = this.loadFile();
+      const fresh = entries.filter((entry) => {
+        const id = `${userId}|${getPlayId(entry)}`;
+        if (this.fileIds.has(id)) return false;
+        this.fileIds.add(id);
+        return true;
+      });
+      if (fresh.length === 0) return 0;
+
+      fs.appendFileSync(
+        this.getHistoryFile(),
+        fresh
+          .map((entry) => JSON.stringify({ userId, ...entry }) + "\n")
+          .join(""),
+        "utf8"
+      );
+      stored.set(
+        userId,
+        [...(stored.get(userId) ?? []), ...fresh].sort((a, b) =>
+          a.playedAt.localeCompare(b.playedAt)
+        )
+      );
+      return fresh.length;
+    } catch (error) {
+      console.error("Failed to record listening history:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Time (epoch ms) of the latest recorded play, or null if none
+   */
+  async getLatestPlayTime(userId: string = "default"): Promise<number | null> {
+    try {
+      if (this.redis) {
+        const [, score] = await this.redis.zrange(
+          this.getIndexKey(userId),
+          -1,
+          -1,
+          "WITHSCORES"
+        );
+        return score !== undefined ? Number(score) : null;
+      }
+
+      const entries = this.loadFile().get(userId) ?? [];
+      return entries.length > 0
+        ? new Date(entries[entries.length - 1].playedAt).getTime()
+        : null;
+    } catch (error) {
+      console.error("Failed to read listening history:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Plays within a time range, newest first
+   */
+  async query(
+    query: ListeningHistoryQuery,
+    userId: string = "default"
+  ): Promise<{ items: ListeningHistoryEntry[]; total: number }> {
+    const { from, to, offset = 0, limit = 50 } = query;
+
+    try {
+      if (this.redis) {
+        const max = to ?? "+inf";
+        const min = from ?? "-inf";
+        const [ids, total] = await Promise.all([
+          this.redis.zrevrangebyscore(
+            this.getIndexKey(userId),
+            max,
+            min,
+            "LIMIT",
+            offset,
+            limit
+          ),
+          this.redis.zcount(this.getIndexKey(userId), min, max),
+        ]);
+        const plays =
+          ids.length > 0
+            ? await this.redis.hmget(this.getPlaysKey(userId), ...ids)
+            : [];
+
+        return {
+          items: plays
+            .filter((play): play is string => play !== null)
+            .map((play) => JSON.parse(play)),
+          total,
+        };
+      }
+
+      const matching = (await this.range(from, to, userId)).reverse();
+
+      return {
+        items: matching.slice(offset, offset + limit),
+        total: matching.length,
+      };
+    } catch (error) {
+      console.error("Failed to read listening history:", error);
+      return { items: [], total: 0 };
+    }
+  }
+
+  /**
+   * Every play within a time range (epoch ms, inclusive), oldest first
+   */
+  async range(
+    from: number | undefined,
+    to: number | undefined,
+    userId: string = "default"
+  ): Promise<ListeningHistoryEntry[]> {
+    try {
+      if (this.redis) {
+        const ids = await this.redis.zrangebyscore(
+          this.getIndexKey(userId),
+          from ?? "-inf",
+          to ?? "+inf"
+        );
+        const plays =
+          ids.length > 0
+            ? await this.redis.hmget(this.getPlaysKey(userId), ...ids)
+            : [];
+        return plays
+          .filter((play): play is string => play !== null)
+          .map((play) => JSON.parse(play));
+      }
+
+      return (this.loadFile().get(userId) ?? []).filter((entry) => {
+        const time = new Date(entry.playedAt).getTime();
+        return (
+          (from === undefined || time >= from) &&
+          (to === undefined || time <= to)
+        );
+      });
+    } catch (error) {
+      console.error("Failed to read listening history:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Close Redis connection when shutting down
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      console.log("Redis listening history store connection closed");
+    }
+  }
+
+  getRedisStatus = (): boolean => {
+    return this.redis !== null;
+  };
+}
+
+// Create and export default instance
+const listeningHistoryStore = new ListeningHistoryStore();
+export default listeningHistoryStore;
@@ -0,0 +1,651 @@
+// File: src/utils/listeningReports.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import apiCache from "./apiCache";
+import listeningHistoryStore from "./listeningHistoryStore";
+import { increment, round, topCounts } from "./utilHelpers";
+import {
+  ListeningHistoryEntry,
+  ListeningReport,
+  PlaylistDetails,
+  PlaylistSnapshotResponse,
+  ReportPeriod,
+  ReportPeriodType,
+  SpotifyTimeRange,
+} from "../types/types";
+
+const TOP_TRACKS = 50;
+const TOP_ARTISTS = 20;
+const TOP_GENRES = 10;
+const DISCOVERED_ARTISTS = 10;
+
+// Entries of each top list shown on the HTML page
+const HTML_LIST_LENGTH = 10;
+
+// Spotify's top items cover about the last four weeks or the last year
+const TIME_RANGES: Record<ReportPeriodType, SpotifyTimeRange> = {
+  month: "short_term",
+  year: "long_term",
+};
+
+/**
+ * Parse a report period: `YYYY` for a year or `YYYY-MM` for a month (UTC)
+ * @returns The period, or null if the value is not one
+ */
+export function parseReportPeriod(value: string): ReportPeriod | null {
+  const match = /^(\d{4})(?:-(\d{2}))?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  if (match[2] === undefined) {
+    return {
+      type: "year",
+      label: value,
+      start: new Date(Date.UTC(year, 0, 1)).toISOString(),
+      end: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+    };
+  }
+
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return {
+    type: "month",
+    label: value,
+    start: new Date(Date.UTC(year, month - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(year, month, 1)).toISOString(),
+  };
+}
+
+/**
+ * Track ID of a play; plays recorded before IDs were stored only have a URI
+ */
+function getTrackId(play: ListeningHistoryEntry): string | null {
+  if (play.trackId) return play.trackId;
+  const match = /^spotify:track:(\w+)$/.exec(play.uri);
+  return match ? match[1] : null;
+}
+
+/**
+ * Keys identifying a play's artists: their IDs, or for plays recorded
+ * without IDs, the ID seen with the same name elsewhere or the name
+ */
+function getArtistKeys(
+  play: ListeningHistoryEntry,
+  idsByName: Map<string, string>
+): string[] {
+  return play.artists.map(
+    (name, i) => play.artistIds?.[i] || idsByName.get(name) || name
+  );
+}
+
+/**
+ * Artist IDs by name, from the plays recorded with IDs
+ */
+function collectArtistIds(plays: ListeningHistoryEntry[]): Map<string, string> {
+  const idsByName = new Map<string, string>();
+  plays.forEach((play) =>
+    play.artists.forEach((name, i) => {
+      const id = play.artistIds?.[i];
+      if (id) idsByName.set(name, id);
+    })
+  );
+  return idsByName;
+}
+
+/**
+ * Items ranked by recorded plays, followed by those only Spotify ranks
+ */
+function mergeRanked<T>(
+  recorded: T[],
+  spotify: T[],
+  getKey: (item: T) => string,
+  limit: number
+): T[] {
+  const seen = new Set(recorded.map(getKey));
+  return [
+    ...recorded,
+    ...spotify.filter((item) => !seen.has(getKey(item))),
+  ].slice(0, limit);
+}
+
+function htmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render a report as a self-contained HTML page
+ */
+export function renderReportHtml(report: ListeningReport): string {
+  const { period } = report;
+  const title = new Date(period.start).toLocaleString("en-US", {
+    ...(period.type === "month" && { month: "long" }),
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  const list = (items: { label: string; detail: string }[]) =>
+    items.length > 0
+      ? `<ol>${items
+          .map(
+            ({ label, detail }) =>
+              `<li>${htmlEscape(label)}<span>${htmlEscape(detail)}</span></li>`
+          )
+          .join("")}</ol>`
+      : "<p>Nothing yet</p>";
+  const plays = (count: number | null) =>
+    count === null ? "" : `${count} play${count === 1 ? "" : "s"}`;
+
+  const tiles = [
+    ["Plays", report.source !== "spotify" ? String(report.plays) : "–"],
+    [
+      "Minutes listened",
+      report.minutesListened !== null ? String(report.minutesListened) : "–",
+    ],
+    [
+      "New artists",
+      report.discoveries ? String(report.discoveries.artists.length) : "–",
+    ],
+  ];
+
+  const mood =
+    report.moodTrend.length > 0
+      ? `<div class="mood">${report.moodTrend
+          .map(
+            ({ label, valence }) =>
+              `<div class="bar" title="${htmlEscape(
+                `${label}: ${valence}`
+              )}"><div style="height:${Math.round(
+                valence * 100
+              )}%"></div><span>${htmlEscape(label)}</span></div>`
+          )
+          .join("")}</div>`
+      : "<p>No audio features available</p>";
+
+  const replayed = report.mostReplayedDay
+    ? `<p>${htmlEscape(report.mostReplayedDay.date)}: ${plays(
+        report.mostReplayedDay.plays
+      )}, mostly ${htmlEscape(report.mostReplayedDay.track.name)} (${plays(
+        report.mostReplayedDay.track.plays
+      )})</p>`
+    : "<p>No recorded plays</p>";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${htmlEscape(`Listening report ${period.label}`)}</title>
+<style>
+body{font-family:system-ui,sans-serif;background:#121212;color:#fff;margin:0;padding:2rem;max-width:960px;margin:auto}
+h1{color:#1db954}h2{margin-top:2rem;border-bottom:1px solid #333;padding-bottom:.25rem}
+.tiles{display:flex;gap:1rem;flex-wrap:wrap}.tile{background:#1e1e1e;border-radius:8px;padding:1rem 1.5rem;flex:1}
+.tile b{display:block;font-size:2rem;color:#1db954}
+ol{padding-left:1.5rem}li{padding:.2rem 0}li span{color:#aaa;margin-left:.5rem;font-size:.9em}
+.genres span{display:inline-block;background:#1e1e1e;border-radius:1rem;padding:.25rem .75rem;margin:.2rem}
+.mood{display:flex;align-items:flex-end;gap:.5rem;height:160px}
+.bar{flex:1;height:100%;display:flex;flex-direction:column;justify-content:flex-end;text-align:center}
+.bar div{background:#1db954;border-radius:4px 4px 0 0}.bar span{font-size:.75em;color:#aaa}
+footer{margin-top:2rem;color:#777;font-size:.8em}
+</style>
+</head>
+<body>
+<h1>${htmlEscape(title)}</h1>
+<div class="tiles">${tiles
+    .map(
+      ([label, value]) =>
+        `<div class="tile"><b>${htmlEscape(value)}</b>${htmlEscape(
+          label
+        )}</div>`
+    )
+    .join("")}</div>
+<h2>Top tracks</h2>
+${list(
+  report.topTracks.slice(0, HTML_LIST_LENGTH).map((track) => ({
+    label: `${track.name} – ${track.artists.join(", ")}`,
+    detail: plays(track.plays),
+  }))
+)}
+<h2>Top artists</h2>
+${list(
+  report.topArtists.slice(0, HTML_LIST_LENGTH).map((artist) => ({
+    label: artist.name,
+    detail: plays(artist.plays),
+  }))
+)}
+<h2>Top genres</h2>
+<div class="genres">${
+    report.topGenres
+      .map(({ genre }) => `<span>${htmlEscape(genre)}</span>`)
+      .join("") || "<p>Nothing yet</p>"
+  }</div>
+<h2>New discoveries</h2>
+${
+  report.discoveries
+    ? `<p>${report.discoveries.tracks} new track${
+        report.discoveries.tracks === 1 ? "" : "s"
+      }</p>${list(
+        report.discoveries.artists.map((artist) => ({
+          label: artist,
+          detail: "",
+        }))
+      )}`
+    : "<p>Not enough history to tell</p>"
+}
+<h2>Most replayed day</h2>
+${replayed}
+<h2>Mood</h2>
+${mood}
+<footer>Generated ${htmlEscape(report.generatedAt)} from ${
+    {
+      history: "recorded plays",
+      spotify: "Spotify's top items",
+      combined: "recorded plays and Spotify's top items",
+    }[report.source]
+  }</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * ListeningReports summarizes a month or year of listening from recorded
+ * plays and, for the current month or year, Spotify's top items
+ */
+export class ListeningReports {
+  /**
+   * Get the report for a period, from cache when generated recently
+   */
+  async getReport(
+    period: ReportPeriod,
+    userId: string = "default"
+  ): Promise<ListeningReport> {
+    const endpoint = "/reports";
+    const params = { period: period.label };
+
+    const cached = await apiCache.get<ListeningReport>(
+      endpoint,
+      params,
+      userId
+    );
+    if (cached) return cached;
+
+    const report = await this.generate(period, userId);
+    await apiCache.set(endpoint, params, report, userId);
+    return report;
+  }
+
+  /**
+   * Save the top tracks of a period as a new playlist
+   */
+  async saveTopTracks(
+    period: ReportPeriod,
+    details: PlaylistDetails = {},
+    userId: string = "default"
+  ): Promise<
+    PlaylistSnapshotResponse & { playlistId: string; tracks: number }
+  > {
+    const report = await this.getReport(period, userId);
+    const uris = report.topTracks.map((track) => track.uri);
+    if (uris.length === 0) {
+      throw new SpotifyApiError(`No top tracks for ${period.label}`, 404);
+    }
+
+    const playlist = await spotifyClient.createPlaylist(
+      {
+        name: `Top tracks ${period.label}`,
+        description: `Most played tracks of ${period.label}`,
+        public: false,
+        ...details,
+      },
+      userId
+    );
+    const snapshot = await spotifyClient.addTracksToPlaylist(
+      playlist.id,
+      uris,
+      undefined,
+      userId
+    );
+
+    console.log(
+      `Saved ${uris.length} top tracks of ${period.label} to ${playlist.id}`
+    );
+    return {
+      playlistId: playlist.id,
+      snapshot_id: snapshot.snapshot_id,
+      tracks: uris.length,
+    };
+  }
+
+  private async generate(
+    period: ReportPeriod,
+    userId: string
+  ): Promise<ListeningReport> {
+    const start = Date.parse(period.start);
+    const end = Date.parse(period.end);
+    const base = { period, generatedAt: new Date().toISOString() };
+
+    const plays = await listeningHistoryStore.range(start, end - 1, userId);
+    // Spotify's top items describe the recent past only
+    const now = Date.now();
+    const isCurrent = now >= start && now < end;
+    if (plays.length === 0 && !isCurrent) {
+      throw new SpotifyApiError(
+        `No plays recorded in ${period.label}; Spotify's top items only cover the current month or year`,
+        404
+      );
+    }
+
+    const [history, spotify] = await Promise.all([
+      plays.length > 0 ? this.fromHistory(plays, period, userId) : null,
+      isCurrent
+        ? this.fromSpotify(period, TIME_RANGES[period.type], userId)
+        : null,
+    ]);
+    if (history && spotify) {
+      return { ...base, ...this.combine(history, spotify) };
+    }
+    return { ...base, ...(history ?? spotify)! };
+  }
+
+  /**
+   * Recorded plays only cover the time the recorder ran, so Spotify's top
+   * items fill in what it missed. Counts, days and mood come from the
+   * plays; tracks, artists and genres only Spotify ranks follow the played
+   * ones, since play counts and Spotify's counts are not comparable.
+   */
+  private combine(
+    history: Omit<ListeningReport, "period" | "generatedAt">,
+    spotify: Omit<ListeningReport, "period" | "generatedAt">
+  ): Omit<ListeningReport, "period" | "generatedAt"> {
+    return {
+      ...history,
+      source: "combined",
+      timeRange: spotify.timeRange,
+      topTracks: mergeRanked(
+        history.topTracks,
+        spotify.topTracks,
+        (track) => track.uri,
+        TOP_TRACKS
+      ),
+      topArtists: mergeRanked(
+        history.topArtists,
+        spotify.topArtists,
+        (artist) => artist.name,
+        TOP_ARTISTS
+      ),
+      topGenres: mergeRanked(
+        history.topGenres,
+        spotify.topGenres,
+        (genre) => genre.genre,
+        TOP_GENRES
+      ),
+      discoveries: history.discoveries ?? spotify.discoveries,
+      moodTrend:
+        history.moodTrend.length > 0 ? history.moodTrend : spotify.moodTrend,
+    };
+  }
+
+  private async fromHistory(
+    plays: ListeningHistoryEntry[],
+    period: ReportPeriod,
+    userId: string
+  ): Promise<Omit<ListeningReport, "period" | "generatedAt">> {
+    const trackPlays = new Map<string, number>();
+    const tracks = new Map<string, ListeningHistoryEntry>();
+    // Artists are keyed by ID, falling back to their name
+    const artistPlays = new Map<string, number>();
+    const artistNames = new Map<string, string>();
+    const idsByName = collectArtistIds(plays);
+    const artistIds = new Set(idsByName.values());
+    const days = new Map<string, ListeningHistoryEntry[]>();
+
+    plays.forEach((play) => {
+      increment(trackPlays, play.uri);
+      tracks.set(play.uri, play);
+      getArtistKeys(play, idsByName).forEach((key, i) => {
+        increment(artistPlays, key);
+        artistNames.set(key, play.artists[i]);
+      });
+
+      const day = play.playedAt.slice(0, 10);
+      const dayPlays = days.get(day) ?? [];
+      dayPlays.push(play);
+      days.set(day, dayPlays);
+    });
+
+    const artists = await spotifyClient.getArtists(
+      Array.from(artistIds),
+      userId
+    );
+    const genreCounts = new Map<string, number>();
+    artistPlays.forEach((count, key) =>
+      artists
+        .get(key)
+        ?.genres.forEach((genre) => increment(genreCounts, genre, count))
+    );
+
+    return {
+      source: "history",
+      timeRange: null,
+      plays: plays.length,
+      minutesListened: Math.round(
+        plays.reduce((sum, play) => sum + play.durationMs, 0) / 60000
+      ),
+      topTracks: topCounts(trackPlays, TOP_TRACKS).map(([uri, count]) => {
+        const track = tracks.get(uri)!;
+        return { uri, name: track.name, artists: track.artists, plays: count };
+      }),
+      topArtists: topCounts(artistPlays, TOP_ARTISTS).map(([key, count]) => ({
+        name: artistNames.get(key)!,
+        plays: count,
+      })),
+      topGenres: topCounts(genreCounts, TOP_GENRES).map(([genre, count]) => ({
+        genre,
+        count,
+      })),
+      discoveries: await this.discoveries(
+        period,
+        trackPlays,
+        artistPlays,
+        artistNames,
+        userId
+      ),
+      mostReplayedDay: this.mostReplayedDay(days),
+      moodTrend: await this.moodTrend(plays, period, userId),
+    };
+  }
+
+  /**
+   * Artists and tracks first played in the period. Without plays recorded
+   * before it, everything would look new, so there is no answer.
+   */
+  private async discoveries(
+    period: ReportPeriod,
+    trackPlays: Map<string, number>,
+    artistPlays: Map<string, number>,
+    artistNames: Map<string, string>,
+    userId: string
+  ): Promise<ListeningReport["discoveries"]> {
+    const earlier = await listeningHistoryStore.range(
+      undefined,
+      Date.parse(period.start) - 1,
+      userId
+    );
+    if (earlier.length === 0) return null;
+
+    // Artists are known by ID or, for plays recorded without IDs, by name
+    const knownTracks = new Set(earlier.map((play) => play.uri));
+    const knownArtists = new Set(
+      earlier.flatMap((play) => [...play.artists, ...(play.artistIds ?? [])])
+    );
+
+    const newArtists = new Map(
+      Array.from(artistPlays).filter(
+        ([key]) =>
+          !knownArtists.has(key) && !knownArtists.has(artistNames.get(key)!)
+      )
+    );
+    return {
+      artists: topCounts(newArtists, DISCOVERED_ARTISTS).map(
+        ([key]) => artistNames.get(key)!
+      ),
+      tracks: Array.from(trackPlays.keys()).filter(
+        (uri) => !knownTracks.has(uri)
+      ).length,
+    };
+  }
+
+  /**
+   * Day (UTC) with the most plays and the track played most that day
+   */
+  private mostReplayedDay(
+    days: Map<string, ListeningHistoryEntry[]>
+  ): ListeningReport["mostReplayedDay"] {
+    let date: string | null = null;
+    let plays: ListeningHistoryEntry[] = [];
+    for (const [day, dayPlays] of days) {
+      if (dayPlays.length > plays.length) {
+        date = day;
+        plays = dayPlays;
+      }
+    }
+    if (date === null) return null;
+
+    const counts = new Map<string, number>();
+    plays.forEach((play) => increment(counts, play.uri));
+    const [[uri, count]] = topCounts(counts, 1);
+
+    return {
+      date,
+      plays: plays.length,
+      track: {
+        uri,
+        name: plays.find((play) => play.uri === uri)!.name,
+        plays: count,
+      },
+    };
+  }
+
+  /**
+   * Average valence of the plays per week of a month or month of a year
+   */
+  private async moodTrend(
+    plays: ListeningHistoryEntry[],
+    period: ReportPeriod,
+    userId: string
+  ): Promise<ListeningReport["moodTrend"]> {
+    const trackIds = plays.map(getTrackId);
+    const features = await spotifyClient.getAudioFeatures(
+      Array.from(new Set(trackIds.filter((id): id is string => id !== null))),
+      userId
+    );
+
+    const buckets = new Map<string, { sum: number; count: number }>();
+    plays.forEach((play, index) => {
+      const feature = trackIds[index] && features.get(trackIds[index]!);
+      if (!feature) return;
+
+      const label =
+        period.type === "year"
+          ? play.playedAt.slice(0, 7)
+          : `Week ${
+              Math.floor((Number(play.playedAt.slice(8, 10)) - 1) / 7) + 1
+            }`;
+      const bucket = buckets.get(label) ?? { sum: 0, count: 0 };
+      bucket.sum += feature.valence;
+      bucket.count++;
+      buckets.set(label, bucket);
+    });
+
+    return Array.from(buckets).map(([label, { sum, count }]) => ({
+      label,
+      valence: round(sum / count),
+      tracks: count,
+    }));
+  }
+
+  private async fromSpotify(
+    period: ReportPeriod,
+    timeRange: SpotifyTimeRange,
+    userId: string
+  ): Promise<Omit<ListeningReport, "period" | "generatedAt">> {
+    const [tracks, artists] = await Promise.all([
+      spotifyClient.getTopTracks(timeRange, TOP_TRACKS, userId),
+      spotifyClient.getTopArtists(timeRange, TOP_ARTISTS, userId),
+    ]);
+
+    const genreCounts = new Map<string, number>();
+    artists.forEach((artist) =>
+      artist.genres.forEach((genre) => increment(genreCounts, genre))
+    );
+
+    // Recent favourites missing from the long-term ones are new
+    let discoveries: ListeningReport["discoveries"] = null;
+    if (timeRange === "short_term") {
+      const [longTermTracks, longTermArtists] = await Promise.all([
+        spotifyClient.getTopTracks("long_term", 50, userId),
+        spotifyClient.getTopArtists("long_term", 50, userId),
+      ]);
+      const knownTracks = new Set(longTermTracks.map((track) => track.id));
+      const knownArtists = new Set(longTermArtists.map((artist) => artist.id));
+      discoveries = {
+        artists: artists
+          .filter((artist) => !knownArtists.has(artist.id))
+          .slice(0, DISCOVERED_ARTISTS)
+          .map((artist) => artist.name),
+        tracks: tracks.filter((track) => !knownTracks.has(track.id)).length,
+      };
+    }
+
+    const features = Array.from(
+      (
+        await spotifyClient.getAudioFeatures(
+          tracks.map((track) => track.id),
+          userId
+        )
+      ).values()
+    );
+
+    return {
+      source: "spotify",
+      timeRange,
+      plays: 0,
+      minutesListened: null,
+      topTracks: tracks.map((track) => ({
+        uri: track.uri,
+        name: track.name,
+        artists: track.artists.map((artist) => artist.name),
+        plays: null,
+      })),
+      topArtists: artists.map((artist) => ({ name: artist.name, plays: null })),
+      topGenres: topCounts(genreCounts, TOP_GENRES).map(([genre, count]) => ({
+        genre,
+        count,
+      })),
+      discoveries,
+      mostReplayedDay: null,
+      moodTrend:
+        features.length > 0
+          ? [
+              {
+                label: period.label,
+                valence: round(
+                  features.reduce((sum, feature) => sum + feature.valence, 0) /
+                    features.length
+                ),
+                tracks: features.length,
+              },
+            ]
+          : [],
+    };
+  }
+}
+
+// Create and export default instance
+const listeningReports = new ListeningReports();
+export default listeningReports;
@@ -0,0 +1,266 @@
+// File: src/utils/nowPlaying.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import rateLimiter from "./rateLimiter";
+import {
+  NowPlayingEvent,
+  NowPlayingState,
+  SpotifyPlaybackState,
+} from "../types/types";
+
+// Poll interval while something is playing. Every poll counts against the
+// user's global hourly budget of 1000 requests, so with the budget untouched
+// this spends 120 an hour; subscribers advance progress themselves between
+// polls.
+const PLAYING_INTERVAL_MS = 30000;
+
+// Extra delay after a track's expected end before polling for the next one
+const TRACK_END_SLACK_MS = 500;
+const MIN_INTERVAL_MS = 1000;
+
+// Intervals stretch as the global budget is spent, up to this
+const MAX_INTERVAL_MS = 5 * 60 * 1000;
+
+// While paused or idle the interval doubles from the first to the second
+const IDLE_INTERVAL_MS = 2000;
+const MAX_IDLE_INTERVAL_MS = 15000;
+
+// Interval after a failed poll
+const ERROR_INTERVAL_MS = 15000;
+
+// Below this share of the global budget left, track ends no longer get an
+// extra poll
+const MIN_GLOBAL_HEADROOM = 0.5;
+
+// Endpoint polled, whose rate limit budget the poller keeps to
+const PLAYBACK_ENDPOINT = "/me/player";
+
+export type NowPlayingListener = (event: NowPlayingEvent) => void;
+
+/**
+ * One poll loop shared by every subscriber of a user
+ */
+interface Poller {
+  listeners: Set<NowPlayingListener>;
+  timer: NodeJS.Timeout | null;
+  /** Last state published, null before the first poll */
+  state: NowPlayingState | null;
+  idleIntervalMs: number;
+}
+
+/**
+ * Stretch a poll interval by the share of the global budget left: unchanged
+ * with all of it left, doubled with half left, at most MAX_INTERVAL_MS
+ */
+function scaleForBudget(intervalMs: number, headroom: number): number {
+  return headroom > 0
+    ? Math.min(MAX_INTERVAL_MS, intervalMs / headroom)
+    : MAX_INTERVAL_MS;
+}
+
+function toNowPlayingState(
+  playback: SpotifyPlaybackState | null
+): NowPlayingState {
+  const item = playback?.item ?? null;
+
+  return {
+    isPlaying: playback?.is_playing ?? false,
+    progressMs: playback?.progress_ms ?? null,
+    track: item
+      ? {
+          uri: item.uri,
+          name: item.name,
+          artists:
+            item.type === "track"
+              ? item.artists.map((artist) => artist.name)
+              : [item.show.name],
+          album: item.type === "track" ? item.album.name : null,
+          imageUrl:
+            (item.type === "track" ? item.album.images : item.images)[0]?.url ??
+            null,
+          durationMs: item.duration_ms,
+        }
+      : null,
+    contextUri: playback?.context?.uri ?? null,
+    device: playback?.device
+      ? { id: playback.device.id, name: playback.device.name }
+      : null,
+  };
+}
+
+/**
+ * NowPlaying polls what each subscribed user is playing and pushes
+ * changes to their subscribers
+ */
+export class NowPlaying {
+  private pollers = new Map<string, Poller>();
+
+  /**
+   * Receive now-playing events for a user. The first subscriber starts the
+   * user's poll loop and later ones get the last known state right away.
+   * @returns Function that unsubscribes; the loop stops with the last one
+   */
+  subscribe(userId: string, listener: NowPlayingListener): () => void {
+    let poller = this.pollers.get(userId);
+    if (!poller) {
+      poller = {
+        listeners: new Set(),
+        timer: null,
+        state: null,
+        idleIntervalMs: IDLE_INTERVAL_MS,
+      };
+      this.pollers.set(userId, poller);
+      this.schedule(userId, poller, 0);
+      console.log(`Now playing poller started for ${userId}`);
+    } else if (poller.state) {
+      listener({ type: "track-change", data: poller.state });
+    }
+
+    const subscribed = poller;
+    subscribed.listeners.add(listener);
+
+    return () => {
+      subscribed.listeners.delete(listener);
+      if (
+        subscribed.listeners.size === 0 &&
+        this.pollers.get(userId) === subscribed
+      ) {
+        this.stopPoller(userId, subscribed);
+      }
+    };
+  }
+
+  /**
+   * Stop every poll loop when shutting down
+   */
+  close(): void {
+    this.pollers.forEach((poller, userId) => this.stopPoller(userId, poller));
+  }
+
+  private stopPoller(userId: string, poller: Poller): void {
+    if (poller.timer) clearTimeout(poller.timer);
+    poller.timer = null;
+    this.pollers.delete(userId);
+    console.log(`Now playing poller stopped for ${userId}`);
+  }
+
+  private schedule(userId: string, poller: Poller, delayMs: number): void {
+    poller.timer = setTimeout(() => {
+      poller.timer = null;
+      this.poll(userId, poller).catch((error) =>
+        console.error(`Now playing poll error for ${userId}:`, error)
+      );
+    }, delayMs);
+  }
+
+  /**
+   * Fetch the playback state, publish what changed and schedule the next
+   * poll. Polls wait while the rate limit budget is used up instead of
+   * queueing behind it, and slow down as the user's global budget is
+   * spent, so playlist tools and player commands keep their share.
+   */
+  private async poll(userId: string, poller: Poller): Promise<void> {
+    let delayMs: number;
+
+    try {
+      const waitMs = await rateLimiter.getWaitTime(PLAYBACK_ENDPOINT, userId);
+      const headroom = await rateLimiter.getGlobalHeadroom(userId);
+      if (waitMs > 0) {
+        delayMs = waitMs;
+      } else {
+        const state = toNowPlayingState(
+          await spotifyClient.getPlaybackState(userId)
+        );
+        if (this.pollers.get(userId) !== poller) return;
+
+        this.publish(poller, state);
+        if (state.isPlaying) {
+          delayMs = scaleForBudget(PLAYING_INTERVAL_MS, headroom);
+          // Poll again shortly after the track should end, to report the
+          // next one without waiting out the interval
+          if (
+            headroom >= MIN_GLOBAL_HEADROOM &&
+            state.track &&
+            state.progressMs !== null
+          ) {
+            const remainingMs =
+              state.track.durationMs - state.progressMs + TRACK_END_SLACK_MS;
+            delayMs = Math.max(MIN_INTERVAL_MS, Math.min(delayMs, remainingMs));
+          }
+          poller.idleIntervalMs = IDLE_INTERVAL_MS;
+        } else {
+          delayMs = scaleForBudget(poller.idleIntervalMs, headroom);
+          poller.idleIntervalMs = Math.min(
+            poller.idleIntervalMs * 2,
+            MAX_IDLE_INTERVAL_MS
+          );
+        }
+      }
+    } catch (error: any) {
+      if (this.pollers.get(userId) !== poller) return;
+
+      this.emit(poller, {
+        type: "error",
+        data: {
+          error: error?.message ?? String(error),
+          reason: error instanceof SpotifyApiError ? error.reason : undefined,
+        },
+      });
+      delayMs = Math.max(
+        ERROR_INTERVAL_MS,
+        error instanceof SpotifyApiError ? error.retryAfterMs ?? 0 : 0
+      );
+    }
+
+    if (this.pollers.get(userId) === poller) {
+      this.schedule(userId, poller, delayMs);
+    }
+  }
+
+  /**
+   * Emit the events that lead from the last published state to `state`
+   */
+  private publish(poller: Poller, state: NowPlayingState): void {
+    const previous = poller.state;
+    poller.state = state;
+
+    if (
+      !previous ||
+      previous.track?.uri !== state.track?.uri ||
+      previous.contextUri !== state.contextUri
+    ) {
+      this.emit(poller, { type: "track-change", data: state });
+      return;
+    }
+
+    if (previous.isPlaying !== state.isPlaying) {
+      this.emit(poller, {
+        type: state.isPlaying ? "play" : "pause",
+        data: { progressMs: state.progressMs },
+      });
+    }
+    if (state.isPlaying) {
+      this.emit(poller, {
+        type: "progress",
+        data: {
+          progressMs: state.progressMs,
+          durationMs: state.track?.durationMs ?? null,
+        },
+      });
+    }
+  }
+
+  private emit(poller: Poller, event: NowPlayingEvent): void {
+    poller.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Now playing listener error:", error);
+      }
+    });
+  }
+}
+
+// Create and export default instance
+const nowPlaying = new NowPlaying();
+export default nowPlaying;
@@ -0,0 +1,282 @@
+// File: src/utils/playlistAnalytics.ts
+
+import spotifyClient from "./spotifyClient";
+import apiCache from "./apiCache";
+import { isTrackItem } from "./spotifyGuards";
+import { increment, round, topCounts } from "./utilHelpers";
+import {
+  PlaylistStats,
+  PlaylistTrackItem,
+  SpotifyAudioFeatures,
+  SpotifyPlaylistFull,
+  SpotifyTrack,
+  StatDistribution,
+} from "../types/types";
+
+type AudioFeatureName = keyof Pick<
+  SpotifyAudioFeatures,
+  | "tempo"
+  | "energy"
+  | "danceability"
+  | "valence"
+  | "acousticness"
+  | "instrumentalness"
+  | "speechiness"
+  | "liveness"
+  | "loudness"
+>;
+
+// Histogram range of each audio feature
+const AUDIO_FEATURE_RANGES: Record<AudioFeatureName, [number, number]> = {
+  tempo: [40, 220],
+  energy: [0, 1],
+  danceability: [0, 1],
+  valence: [0, 1],
+  acousticness: [0, 1],
+  instrumentalness: [0, 1],
+  speechiness: [0, 1],
+  liveness: [0, 1],
+  loudness: [-60, 0],
+};
+
+const HISTOGRAM_BUCKETS = 10;
+const TOP_ARTISTS = 10;
+const TOP_GENRES = 20;
+
+/**
+ * Summarize values into min/max/mean/median and a histogram over `range`.
+ * Values outside the range fall into the first or last bucket.
+ */
+function distribution(
+  values: number[],
+  [from, to]: [number, number]
+): StatDistribution | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+
+  const width = (to - from) / HISTOGRAM_BUCKETS;
+  const histogram = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    from: round(from + i * width),
+    to: round(from + (i + 1) * width),
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    const bucket = Math.min(
+      HISTOGRAM_BUCKETS - 1,
+      Math.max(0, Math.floor((value - from) / width))
+    );
+    histogram[bucket].count++;
+  });
+
+  return {
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: round(median),
+    histogram,
+  };
+}
+
+/**
+ * PlaylistAnalytics computes statistics over a playlist's contents.
+ * Results are cached per snapshot, so any change to the playlist
+ * produces fresh statistics.
+ */
+export class PlaylistAnalytics {
+  /**
+   * Get the statistics of a playlist, from cache when its snapshot has
+   * not changed. Fresh statistics come from one read of the playlist and
+   * its items and are cached under that read's snapshot.
+   */
+  async getStats(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<PlaylistStats> {
+    const endpoint = `/playlists/${playlistId}/stats`;
+    const snapshotId = await spotifyClient.getPlaylistSnapshotId(
+      playlistId,
+      userId
+    );
+
+    const cached = await apiCache.get<PlaylistStats>(
+      endpoint,
+      { snapshot_id: snapshotId },
+      userId
+    );
+    if (cached) return cached;
+
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+    const stats = await this.compute(playlist, items, userId);
+
+    await apiCache.set(
+      endpoint,
+      { snapshot_id: playlist.snapshot_id },
+      stats,
+      userId
+    );
+    return stats;
+  }
+
+  private async compute(
+    playlist: SpotifyPlaylistFull,
+    items: PlaylistTrackItem[],
+    userId: string
+  ): Promise<PlaylistStats> {
+    const tracks: SpotifyTrack[] = items
+      .filter(isTrackItem)
+      .filter((item) => !item.is_local)
+      .map((item) => item.track);
+
+    const artistCounts = new Map<string, number>();
+    const artistIds = new Map<string, string | null>();
+    const albums = new Set<string>();
+    const decades = new Map<string, number>();
+    const years = new Map<string, number>();
+
+    tracks.forEach((track) => {
+      track.artists.forEach((artist) => {
+        increment(artistCounts, artist.name);
+        artistIds.set(artist.name, artist.id ?? null);
+      });
+      albums.add(track.album.id ?? track.album.name);
+
+      const year = parseInt(track.album.release_date, 10);
+      if (!Number.isNaN(year) && year > 0) {
+        increment(years, String(year));
+        increment(decades, `${Math.floor(year / 10) * 10}s`);
+      }
+    });
+
+    const popularity = tracks
+      .map((track) => track.popularity)
+      .filter((value) => typeof value === "number");
+
+    return {
+      playlistId: playlist.id,
+      snapshotId: playlist.snapshot_id,
+      name: playlist.name,
+      generatedAt: new Date().toISOString(),
+      trackCount: items.filter(
+        (item) => item.track?.type === "track" || item.is_local
+      ).length,
+      episodeCount: items.filter((item) => item.track?.type === "episode")
+        .length,
+      localCount: items.filter((item) => item.is_local).length,
+      unavailableCount: items.filter((item) => !item.track).length,
+      totalDurationMs: items.reduce(
+        (sum, item) => sum + (item.track?.duration_ms ?? 0),
+        0
+      ),
+      artistCount: artistCounts.size,
+      albumCount: albums.size,
+      topArtists: topCounts(artistCounts, TOP_ARTISTS).map(([name, count]) => ({
+        id: artistIds.get(name) ?? null,
+        name,
+        count,
+      })),
+      decades: Object.fromEntries(
+        Array.from(decades).sort((a, b) => a[0].localeCompare(b[0]))
+      ),
+      releaseYears: Object.fromEntries(
+        Array.from(years).sort((a, b) => a[0].localeCompare(b[0]))
+      ),
+      explicitRatio:
+        tracks.length > 0
+          ? round(
+              tracks.filter((track) => track.explicit).length / tracks.length
+            )
+          : 0,
+      averagePopularity:
+        popularity.length > 0
+          ? round(
+              popularity.reduce((sum, value) => sum + value, 0) /
+                popularity.length
+            )
+          : null,
+      audioFeatures: await this.audioFeatureStats(tracks, userId),
+      genres: await this.genreStats(tracks, userId),
+      contributors: playlist.collaborative
+        ? this.contributorStats(items)
+        : null,
+    };
+  }
+
+  private async audioFeatureStats(
+    tracks: SpotifyTrack[],
+    userId: string
+  ): Promise<Record<string, StatDistribution>> {
+    const features = await spotifyClient.getAudioFeatures(
+      tracks.map((track) => track.id),
+      userId
+    );
+    const values = Array.from(features.values());
+    const result: Record<string, StatDistribution> = {};
+
+    (Object.keys(AUDIO_FEATURE_RANGES) as AudioFeatureName[]).forEach(
+      (name) => {
+        const summary = distribution(
+          values
+            .map((feature) => feature[name])
+            .filter((value) => typeof value === "number"),
+          AUDIO_FEATURE_RANGES[name]
+        );
+        if (summary) result[name] = summary;
+      }
+    );
+
+    return result;
+  }
+
+  /**
+   * Count tracks per genre; a track counts once for each genre of any of
+   * its artists
+   */
+  private async genreStats(
+    tracks: SpotifyTrack[],
+    userId: string
+  ): Promise<PlaylistStats["genres"]> {
+    const artists = await spotifyClient.getArtists(
+      tracks.flatMap((track) => track.artists.map((artist) => artist.id)),
+      userId
+    );
+
+    const counts = new Map<string, number>();
+    tracks.forEach((track) => {
+      new Set(
+        track.artists.flatMap((artist) => artists.get(artist.id)?.genres ?? [])
+      ).forEach((genre) => increment(counts, genre));
+    });
+
+    return topCounts(counts, TOP_GENRES).map(([genre, count]) => ({
+      genre,
+      count,
+    }));
+  }
+
+  private contributorStats(
+    items: PlaylistTrackItem[]
+  ): NonNullable<PlaylistStats["contributors"]> {
+    const counts = new Map<string, number>();
+    items.forEach((item) => {
+      if (item.added_by?.id) increment(counts, item.added_by.id);
+    });
+
+    return topCounts(counts, counts.size).map(([id, count]) => ({
+      id,
+      count,
+    }));
+  }
+}
+
+// Create and export default instance
+const playlistAnalytics = new PlaylistAnalytics();
+export default playlistAnalytics;
@@ -0,0 +1,193 @@
+// File: src/utils/playlistDedupe.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import { isTrackItem } from "./spotifyGuards";
+import { songKey } from "./trackNormalizer";
+import {
+  DuplicateEntry,
+  DuplicateGroup,
+  DuplicateKind,
+  DuplicateReport,
+  PlaylistSnapshotResponse,
+  PlaylistTrackRemoval,
+  SpotifyTrack,
+} from "../types/types";
+
+/**
+ * PlaylistDedupe finds duplicate tracks in a playlist and removes
+ * selected copies by position
+ */
+export class PlaylistDedupe {
+  /**
+   * Scan a playlist and group its duplicate entries.
+   * Entries are reported under the strongest kind that explains them:
+   * exact URI matches first, then ISRC, then fuzzy title/artist matches.
+   */
+  async scan(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<DuplicateReport> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+
+    const entries: { entry: DuplicateEntry; track: SpotifyTrack }[] = [];
+    items.forEach((item, position) => {
+      if (!isTrackItem(item)) return;
+      entries.push({
+        entry: {
+          uri: item.track.uri,
+          position,
+          name: item.track.name,
+          artists: item.track.artists.map((artist) => artist.name),
+          album: item.track.album.name,
+          added_at: item.added_at,
+        },
+        track: item.track,
+      });
+    });
+
+    const groups: DuplicateGroup[] = [];
+
+    // Same URI
+    const byUri = this.groupBy(entries, ({ track }) => track.uri);
+    byUri.forEach((group, uri) => {
+      if (group.length > 1) {
+        groups.push(this.toGroup("exact", uri, group));
+      }
+    });
+
+    // Same recording on different releases
+    const byIsrc = this.groupBy(entries, ({ track }) =>
+      track.external_ids?.isrc?.toUpperCase()
+    );
+    byIsrc.forEach((group, isrc) => {
+      if (this.countDistinct(group, ({ track }) => track.uri) > 1) {
+        groups.push(this.toGroup("isrc", isrc, group));
+      }
+    });
+
+    // Same song title and primary artist, not already explained by ISRC
+    const bySong = this.groupBy(entries, ({ track }) =>
+      track.artists.length > 0
+        ? songKey(track.name, track.artists[0].name)
+        : undefined
+    );
+    bySong.forEach((group, key) => {
+      const recordings = this.countDistinct(
+        group,
+        ({ track }) => track.external_ids?.isrc?.toUpperCase() || track.uri
+      );
+      if (recordings > 1) {
+        groups.push(this.toGroup("fuzzy", key, group));
+      }
+    });
+
+    return {
+      playlistId,
+      snapshotId: playlist.snapshot_id,
+      totalTracks: items.length,
+      groups,
+    };
+  }
+
+  /**
+   * Remove duplicate copies from a playlist.
+   * When `positions` is omitted, every suggested duplicate of the given
+   * kinds is removed. The snapshot ID from the report must still be current.
+   */
+  async remove(
+    playlistId: string,
+    snapshotId: string,
+    options: { positions?: number[]; kinds?: DuplicateKind[] } = {},
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse & { removed: number }> {
+    const report = await this.scan(playlistId, userId);
+
+    if (report.snapshotId !== snapshotId) {
+      throw new SpotifyApiError(
+        "Playlist changed since the duplicate scan; scan again",
+        409
+      );
+    }
+
+    const kinds = options.kinds ?? ["exact", "isrc", "fuzzy"];
+    const candidates = new Map<number, DuplicateEntry>();
+    report.groups
+      .filter((group) => kinds.includes(group.kind))
+      .forEach((group) =>
+        group.duplicates.forEach((entry) =>
+          candidates.set(entry.position, entry)
+        )
+      );
+
+    // Only positions reported as duplicates may be removed
+    const positions = options.positions ?? Array.from(candidates.keys());
+    const unknown = positions.filter((position) => !candidates.has(position));
+    if (unknown.length > 0) {
+      throw new SpotifyApiError(
+        `Positions are not duplicates: ${unknown.join(", ")}`,
+        400
+      );
+    }
+
+    if (positions.length === 0) {
+      return { snapshot_id: snapshotId, removed: 0 };
+    }
+
+    const removals = new Map<string, number[]>();
+    positions.forEach((position) => {
+      const { uri } = candidates.get(position)!;
+      removals.set(uri, [...(removals.get(uri) ?? []), position]);
+    });
+
+    const tracks: PlaylistTrackRemoval[] = Array.from(removals).map(
+      ([uri, uriPositions]) => ({ uri, positions: uriPositions })
+    );
+
+    const result = await spotifyClient.removeTracksFromPlaylist(
+      playlistId,
+      tracks,
+      snapshotId,
+      userId
+    );
+
+    return { ...result, removed: positions.length };
+  }
+
+  /**
+   * Build a duplicate group, keeping the earliest entry
+   */
+  private toGroup(
+    kind: DuplicateKind,
+    key: string,
+    group: { entry: DuplicateEntry }[]
+  ): DuplicateGroup {
+    const [keep, ...duplicates] = group
+      .map(({ entry }) => entry)
+      .sort((a, b) => a.position - b.position);
+    return { kind, key, keep, duplicates };
+  }
+
+  private groupBy<T>(
+    values: T[],
+    getKey: (value: T) => string | undefined
+  ): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    values.forEach((value) => {
+      const key = getKey(value);
+      if (!key) return;
+      groups.set(key, [...(groups.get(key) ?? []), value]);
+    });
+    return groups;
+  }
+
+  private countDistinct<T>(values: T[], getKey: (value: T) => string): number {
+    return new Set(values.map(getKey)).size;
+  }
+}
+
+// Create and export default instance
+const playlistDedupe = new PlaylistDedupe();
+export default playlistDedupe;
@@ -0,0 +1,306 @@
+// File: src/utils/playlistExporter.ts
+
+import { once } from "events";
+import { Writable } from "stream";
+import spotifyClient from "./spotifyClient";
+import {
+  ExportFormat,
+  ExportedTrack,
+  PlaylistTrackItem,
+  SpotifyPlaylist,
+} from "../types/types";
+
+/**
+ * Serializes playlists into one export document, piece by piece
+ */
+interface ExportWriter {
+  start(): string;
+  beginPlaylist(playlist: SpotifyPlaylist, index: number): string;
+  track(track: ExportedTrack, index: number): string;
+  endPlaylist(): string;
+  end(): string;
+}
+
+const CSV_COLUMNS: (keyof ExportedTrack)[] = [
+  "position",
+  "name",
+  "artists",
+  "album",
+  "duration_ms",
+  "isrc",
+  "added_at",
+  "uri",
+  "url",
+];
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+  m3u8: {
+    contentType: "audio/x-mpegurl; charset=utf-8",
+    extension: "m3u8",
+  },
+  xspf: {
+    contentType: "application/xspf+xml; charset=utf-8",
+    extension: "xspf",
+  },
+};
+
+/**
+ * Quote a CSV field when needed. Values that spreadsheets would treat as
+ * formulas are prefixed with an apostrophe.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = Array.isArray(value) ? value.join("; ") : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function xmlElement(name: string, value: string | number | null): string {
+  return value === null || value === ""
+    ? ""
+    : `<${name}>${xmlEscape(String(value))}</${name}>`;
+}
+
+/**
+ * Build a writer for a format. Library exports hold several playlists in
+ * one document: CSV gains a playlist column, JSON a list of playlists,
+ * M3U8 a #PLAYLIST line per playlist and XSPF a single combined track list.
+ */
+function createWriter(format: ExportFormat, library: boolean): ExportWriter {
+  let playlistName = "";
+  let started = false;
+
+  switch (format) {
+    case "csv": {
+      const columns = library ? ["playlist", ...CSV_COLUMNS] : CSV_COLUMNS;
+      return {
+        start: () => `${columns.join(",")}\r\n`,
+        beginPlaylist: (playlist) => {
+          playlistName = playlist.name;
+          return "";
+        },
+        track: (track) => {
+          const fields = CSV_COLUMNS.map((column) => csvField(track[column]));
+          if (library) fields.unshift(csvField(playlistName));
+          return `${fields.join(",")}\r\n`;
+        },
+        endPlaylist: () => "",
+        end: () => "",
+      };
+    }
+
+    case "json": {
+      const header = (playlist: SpotifyPlaylist) =>
+        JSON.stringify({
+          id: playlist.id,
+          name: playlist.name,
+          description: playlist.description,
+          owner: playlist.owner.display_name ?? playlist.owner.id,
+          snapshot_id: playlist.snapshot_id,
+          url: playlist.external_urls.spotify,
+        }).slice(0, -1);
+
+      return {
+        start: () =>
+          library
+            ? `{"exported_at":${JSON.stringify(
+                new Date().toISOString()
+              )},"playlists":[`
+            : "",
+        beginPlaylist: (playlist, index) =>
+          `${library && index > 0 ? "," : ""}${header(playlist)},"tracks":[`,
+        track: (track, index) =>
+          `${index > 0 ? "," : ""}${JSON.stringify(track)}`,
+        endPlaylist: () => "]}",
+        end: () => (library ? "]}" : ""),
+      };
+    }
+
+    case "m3u8":
+      return {
+        start: () => "#EXTM3U\n",
+        beginPlaylist: (playlist) =>
+          `#PLAYLIST:${playlist.name.replace(/[\r\n]+/g, " ")}\n`,
+        track: (track) => {
+          const seconds =
+            track.duration_ms === null
+              ? -1
+              : Math.round(track.duration_ms / 1000);
+          const title = [track.artists.join(", "), track.name]
+            .filter(Boolean)
+            .join(" - ")
+            .replace(/[\r\n]+/g, " ");
+          return `#EXTINF:${seconds},${title}\n${
+            track.url ?? track.uri ?? ""
+          }\n`;
+        },
+        endPlaylist: () => "",
+        end: () => "",
+      };
+
+    case "xspf":
+      return {
+        start: () =>
+          '<?xml version="1.0" encoding="UTF-8"?>\n' +
+          '<playlist version="1" xmlns="http://xspf.org/ns/0/">\n',
+        beginPlaylist: (playlist, index) => {
+          if (started) return "";
+          started = true;
+          const title = library ? "Spotify library" : playlist.name;
+          return (
+            `  ${xmlElement("title", title)}\n` +
+            (library
+              ? ""
+              : `  ${xmlElement(
+                  "location",
+                  playlist.external_urls.spotify
+                )}\n`) +
+            "  <trackList>\n"
+          );
+        },
+        track: (track) =>
+          "    <track>" +
+          xmlElement("location", track.url) +
+          xmlElement("identifier", track.uri) +
+          xmlElement("title", track.name) +
+          xmlElement("creator", track.artists.join(", ")) +
+          xmlElement("album", track.album) +
+          xmlElement("duration", track.duration_ms) +
+          "</track>\n",
+        endPlaylist: () => "",
+        // An empty library never opened the track list
+        end: () =>
+          `${started ? "" : "  <trackList>\n"}  </trackList>\n</playlist>\n`,
+      };
+  }
+}
+
+/**
+ * PlaylistExporter streams playlists page by page into export formats
+ */
+export class PlaylistExporter {
+  /**
+   * Stream one playlist to `output`
+   */
+  async exportPlaylist(
+    playlistId: string,
+    format: ExportFormat,
+    output: Writable,
+    userId: string = "default",
+    signal?: AbortSignal
+  ): Promise<void> {
+    const playlist = await spotifyClient.getPlaylist(playlistId, userId);
+    const writer = createWriter(format, false);
+
+    await this.write(output, signal, writer.start());
+    await this.writePlaylist(playlist, 0, writer, output, userId, signal);
+    await this.write(output, signal, writer.end());
+  }
+
+  /**
+   * Stream every playlist of the user to `output` as one document
+   */
+  async exportLibrary(
+    format: ExportFormat,
+    output: Writable,
+    userId: string = "default",
+    signal?: AbortSignal
+  ): Promise<void> {
+    const playlists = await spotifyClient.getAllUserPlaylists(userId, {
+      signal,
+    });
+    const writer = createWriter(format, true);
+
+    await this.write(output, signal, writer.start());
+    for (let i = 0; i < playlists.length; i++) {
+      await this.writePlaylist(playlists[i], i, writer, output, userId, signal);
+    }
+    await this.write(output, signal, writer.end());
+  }
+
+  /**
+   * Flatten a playlist entry into the fields shared by all formats
+   */
+  private toExportedTrack(
+    item: PlaylistTrackItem,
+    position: number
+  ): ExportedTrack {
+    const { track } = item;
+    const isTrack = track?.type === "track";
+
+    return {
+      position,
+      uri: track?.uri ?? null,
+      url: track?.external_urls?.spotify ?? null,
+      name: track?.name ?? null,
+      artists: !track
+        ? []
+        : isTrack
+        ? track.artists.map((artist) => artist.name)
+        : [track.show.name],
+      album: !track ? null : isTrack ? track.album.name : track.show.name,
+      duration_ms: track?.duration_ms ?? null,
+      isrc: isTrack ? track.external_ids?.isrc ?? null : null,
+      added_at: item.added_at,
+      is_local: item.is_local,
+    };
+  }
+
+  private async writePlaylist(
+    playlist: SpotifyPlaylist,
+    index: number,
+    writer: ExportWriter,
+    output: Writable,
+    userId: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.write(output, signal, writer.beginPlaylist(playlist, index));
+
+    let position = 0;
+    for await (const item of spotifyClient.iteratePlaylistTracks(
+      playlist.id,
+      userId,
+      { signal }
+    )) {
+      await this.write(
+        output,
+        signal,
+        writer.track(this.toExportedTrack(item, position), position)
+      );
+      position++;
+    }
+
+    await this.write(output, signal, writer.endPlaylist());
+  }
+
+  /**
+   * Write a chunk, waiting for the output to drain when its buffer is full
+   */
+  private async write(
+    output: Writable,
+    signal: AbortSignal | undefined,
+    chunk: string
+  ): Promise<void> {
+    if (chunk && !output.write(chunk)) {
+      await once(output, "drain", { signal });
+    }
+  }
+}
+
+// Create and export default instance
+const playlistExporter = new PlaylistExporter();
+export default playlistExporter;
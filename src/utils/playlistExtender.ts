@@ -0,0 +1,300 @@
+// File: src/utils/playlistExtender.ts
+
+import spotifyClient, {
+  MAX_RECOMMENDATION_SEEDS,
+  SpotifyApiError,
+} from "./spotifyClient";
+import blocklistStore from "./blocklistStore";
+import { isTrackItem } from "./spotifyGuards";
+import { increment, quantile, round, topCounts } from "./utilHelpers";
+import {
+  ExtensionSuggestion,
+  PlaylistExtension,
+  PlaylistSnapshotResponse,
+  ProgressCallback,
+  RecommendationRequest,
+  SpotifyAudioFeatures,
+  SpotifyTrack,
+} from "../types/types";
+
+// Audio features turned into recommendation ranges, with the scale used to
+// compare them when looking for representative tracks
+const FEATURE_SCALES = {
+  energy: 1,
+  danceability: 1,
+  valence: 1,
+  acousticness: 1,
+  instrumentalness: 1,
+  tempo: 200,
+};
+
+type ExtendFeature = keyof typeof FEATURE_SCALES;
+
+// Features sent as hard min/max ranges; the others are only targeted, as
+// every added range removes about a fifth of the recommendations
+const RANGED_FEATURES: ExtendFeature[] = ["energy", "tempo"];
+
+// Seeds taken from the playlist's most frequent artists and genres; the
+// rest of the five seeds are representative tracks
+const ARTIST_SEEDS = 2;
+const GENRE_SEEDS = 1;
+
+// Recommendations fetched per request; filtering picks from these
+const RECOMMENDATION_POOL = 100;
+
+// Fewer audio features than this are too few to derive ranges from
+const MIN_FEATURE_SAMPLES = 3;
+
+/**
+ * PlaylistExtender suggests tracks that fit a playlist, seeded from its
+ * most representative tracks, artists and genres
+ */
+export class PlaylistExtender {
+  /**
+   * Recommend up to `count` tracks the playlist does not contain yet
+   */
+  async suggest(
+    playlistId: string,
+    count: number,
+    userId: string = "default"
+  ): Promise<PlaylistExtension> {
+    const items = await spotifyClient.getAllPlaylistTracks(playlistId, userId);
+    const tracks = items
+      .filter(isTrackItem)
+      .filter((item) => !item.is_local)
+      .map((item) => item.track);
+
+    if (tracks.length === 0) {
+      throw new SpotifyApiError(
+        "Playlist has no tracks to base recommendations on",
+        400
+      );
+    }
+
+    const features = await spotifyClient.getAudioFeatures(
+      tracks.map((track) => track.id),
+      userId
+    );
+    const attributes = this.deriveAttributes(Array.from(features.values()));
+    const artists = this.topArtists(tracks, ARTIST_SEEDS);
+    const genres = await this.topGenres(tracks, GENRE_SEEDS, userId);
+    const seedTracks = this.representativeTracks(
+      tracks,
+      features,
+      MAX_RECOMMENDATION_SEEDS - artists.length - genres.length
+    );
+
+    const { tracks: recommended } = await spotifyClient.getRecommendations(
+      {
+        seedTracks: seedTracks.map((track) => track.id),
+        seedArtists: artists.map((artist) => artist.id),
+        seedGenres: genres,
+        limit: RECOMMENDATION_POOL,
+        market: "from_token",
+        attributes,
+      },
+      userId
+    );
+
+    const present = new Set(
+      tracks.flatMap((track) => [
+        track.uri,
+        ...(track.external_ids?.isrc
+          ? [`isrc:${track.external_ids.isrc.toUpperCase()}`]
+          : []),
+      ])
+    );
+    const blocked = new Set(await blocklistStore.list(userId));
+    const filtered = { present: 0, blocked: 0 };
+    const suggestions: ExtensionSuggestion[] = [];
+
+    recommended.forEach((track) => {
+      if (suggestions.length >= count) return;
+      const isrc = track.external_ids?.isrc?.toUpperCase();
+      if (present.has(track.uri) || (isrc && present.has(`isrc:${isrc}`))) {
+        filtered.present++;
+        return;
+      }
+      if (
+        blocked.has(track.uri) ||
+        track.artists.some((artist) => blocked.has(artist.uri))
+      ) {
+        filtered.blocked++;
+        return;
+      }
+
+      present.add(track.uri);
+      if (isrc) present.add(`isrc:${isrc}`);
+      suggestions.push({
+        uri: track.uri,
+        name: track.name,
+        artists: track.artists.map((artist) => artist.name),
+        album: track.album.name,
+      });
+    });
+
+    return {
+      playlistId,
+      seeds: {
+        tracks: seedTracks.map(({ id, name }) => ({ id, name })),
+        artists,
+        genres,
+      },
+      attributes,
+      suggestions,
+      filtered,
+    };
+  }
+
+  /**
+   * Append up to `count` recommended tracks to the playlist
+   */
+  async extend(
+    playlistId: string,
+    count: number,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistExtension & PlaylistSnapshotResponse & { added: number }> {
+    onProgress?.(0, 2);
+    const extension = await this.suggest(playlistId, count, userId);
+    onProgress?.(1, 2);
+
+    const uris = extension.suggestions.map((track) => track.uri);
+    const snapshot =
+      uris.length > 0
+        ? await spotifyClient.addTracksToPlaylist(
+            playlistId,
+            uris,
+            undefined,
+            userId
+          )
+        : await spotifyClient.getPlaylist(playlistId, userId);
+    onProgress?.(2, 2);
+
+    console.log(`Extended playlist ${playlistId} with ${uris.length} tracks`);
+    return {
+      ...extension,
+      snapshot_id: snapshot.snapshot_id,
+      added: uris.length,
+    };
+  }
+
+  /**
+   * Recommendation targets at the medians of the playlist's audio features,
+   * with ranges covering the middle 80% of its energy and tempo
+   */
+  private deriveAttributes(
+    features: SpotifyAudioFeatures[]
+  ): RecommendationRequest["attributes"] {
+    const attributes: RecommendationRequest["attributes"] = {};
+    if (features.length < MIN_FEATURE_SAMPLES) return attributes;
+
+    (Object.keys(FEATURE_SCALES) as ExtendFeature[]).forEach((name) => {
+      const values = features
+        .map((feature) => feature[name])
+        .filter((value) => typeof value === "number")
+        .sort((a, b) => a - b);
+      if (values.length < MIN_FEATURE_SAMPLES) return;
+
+      const min = round(quantile(values, 0.1));
+      const max = round(quantile(values, 0.9));
+      // A uniform playlist would leave an empty range; only target it
+      if (RANGED_FEATURES.includes(name) && min < max) {
+        attributes[`min_${name}`] = min;
+        attributes[`max_${name}`] = max;
+      }
+      attributes[`target_${name}`] = round(quantile(values, 0.5));
+    });
+
+    return attributes;
+  }
+
+  /**
+   * Tracks whose audio features lie closest to the playlist's medians
+   */
+  private representativeTracks(
+    tracks: SpotifyTrack[],
+    features: Map<string, SpotifyAudioFeatures>,
+    count: number
+  ): SpotifyTrack[] {
+    const names = Object.keys(FEATURE_SCALES) as ExtendFeature[];
+    const medians = names.map((name) => {
+      const values = Array.from(features.values())
+        .map((feature) => feature[name])
+        .sort((a, b) => a - b);
+      return values.length > 0 ? quantile(values, 0.5) : 0;
+    });
+
+    const distance = (track: SpotifyTrack): number => {
+      const feature = features.get(track.id);
+      if (!feature) return Infinity;
+      return names.reduce(
+        (sum, name, i) =>
+          sum + Math.abs(feature[name] - medians[i]) / FEATURE_SCALES[name],
+        0
+      );
+    };
+
+    const unique = Array.from(
+      new Map(tracks.map((track) => [track.id, track])).values()
+    );
+    return unique
+      .map((track) => ({ track, distance: distance(track) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(({ track }) => track);
+  }
+
+  private topArtists(
+    tracks: SpotifyTrack[],
+    count: number
+  ): { id: string; name: string }[] {
+    const counts = new Map<string, number>();
+    const names = new Map<string, string>();
+    tracks.forEach((track) =>
+      track.artists.forEach((artist) => {
+        if (!artist.id) return;
+        increment(counts, artist.id);
+        names.set(artist.id, artist.name);
+      })
+    );
+
+    return topCounts(counts, count).map(([id]) => ({
+      id,
+      name: names.get(id)!,
+    }));
+  }
+
+  /**
+   * Most frequent artist genres that Spotify accepts as seeds
+   */
+  private async topGenres(
+    tracks: SpotifyTrack[],
+    count: number,
+    userId: string
+  ): Promise<string[]> {
+    const [artists, seeds] = await Promise.all([
+      spotifyClient.getArtists(
+        tracks.flatMap((track) => track.artists.map((artist) => artist.id)),
+        userId
+      ),
+      spotifyClient.getAvailableGenreSeeds(userId),
+    ]);
+    const accepted = new Set(seeds);
+
+    const counts = new Map<string, number>();
+    tracks.forEach((track) =>
+      new Set(
+        track.artists.flatMap((artist) => artists.get(artist.id)?.genres ?? [])
+      ).forEach((genre) => {
+        if (accepted.has(genre)) increment(counts, genre);
+      })
+    );
+
+    return topCounts(counts, count).map(([genre]) => genre);
+  }
+}
+
+// Create and export default instance
+const playlistExtender = new PlaylistExtender();
+export default playlistExtender;
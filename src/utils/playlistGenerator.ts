@@ -0,0 +1,263 @@
+// File: src/utils/playlistGenerator.ts
+
+import spotifyClient from "./spotifyClient";
+import { createRandom } from "./playlistShuffler";
+import { createYielder } from "./playlistMixer";
+import { isTrackItem } from "./spotifyGuards";
+import {
+  GeneratedTrack,
+  GeneratorRequest,
+  GeneratorResult,
+  ProgressCallback,
+} from "../types/types";
+
+const DEFAULT_TOLERANCE_MS = 30 * 1000;
+
+// Longest playlist the generator builds; bounds the selection table size
+export const MAX_GENERATED_DURATION_MS = 10 * 60 * 60 * 1000;
+
+// Widest tolerance accepted; with the duration it bounds the selection table
+export const MAX_TOLERANCE_MS = 10 * 60 * 1000;
+
+// How far (in BPM) a track may lie outside the range of a tempo curve
+const TEMPO_CURVE_SLACK = 10;
+
+/**
+ * Tempo of a curve at `fraction` (0-1) of the playlist, interpolating
+ * linearly between its evenly spaced points
+ */
+function curveAt(curve: number[], fraction: number): number {
+  if (curve.length === 1) return curve[0];
+  const scaled = fraction * (curve.length - 1);
+  const index = Math.min(Math.floor(scaled), curve.length - 2);
+  return curve[index] + (curve[index + 1] - curve[index]) * (scaled - index);
+}
+
+/**
+ * PlaylistGenerator builds a playlist of a target length from source
+ * playlists, keeping to tempo and energy constraints
+ */
+export class PlaylistGenerator {
+  /**
+   * Pick tracks without creating a playlist
+   */
+  async preview(
+    request: GeneratorRequest,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<GeneratorResult> {
+    const { sources, durationMs, toleranceMs = DEFAULT_TOLERANCE_MS } = request;
+    const seed = request.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+    const candidates = await this.loadCandidates(request, userId, onProgress);
+    const random = createRandom(seed);
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+
+    let tracks = await this.select(candidates, durationMs, toleranceMs);
+    if (request.tempoCurve?.length) {
+      tracks = this.followCurve(tracks, request.tempoCurve);
+    }
+
+    const total = tracks.reduce((sum, track) => sum + track.durationMs, 0);
+    onProgress?.(sources.length, sources.length + 1);
+
+    return {
+      seed,
+      candidates: candidates.length,
+      tracks,
+      durationMs: total,
+      withinTolerance: Math.abs(total - durationMs) <= toleranceMs,
+    };
+  }
+
+  /**
+   * Pick tracks and write them to a new playlist
+   */
+  async generate(
+    request: GeneratorRequest,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<GeneratorResult> {
+    const result = await this.preview(request, userId, onProgress);
+
+    const playlist = await spotifyClient.createPlaylist(
+      {
+        name: `Generated ${Math.round(request.durationMs / 60000)} min`,
+        ...request.targetDetails,
+      },
+      userId
+    );
+    const snapshot = await spotifyClient.addTracksToPlaylist(
+      playlist.id,
+      result.tracks.map((track) => track.uri),
+      undefined,
+      userId
+    );
+
+    onProgress?.(request.sources.length + 1, request.sources.length + 1);
+    console.log(
+      `Generated playlist ${playlist.id} with ${result.tracks.length} tracks (${result.durationMs} ms)`
+    );
+    return {
+      ...result,
+      playlistId: playlist.id,
+      snapshot_id: snapshot.snapshot_id,
+    };
+  }
+
+  /**
+   * Load every source and keep the playable tracks within the tempo and
+   * energy constraints. Tracks without audio features only qualify when
+   * neither is constrained.
+   */
+  private async loadCandidates(
+    request: GeneratorRequest,
+    userId: string,
+    onProgress?: ProgressCallback
+  ): Promise<GeneratedTrack[]> {
+    const { sources, tempo, tempoCurve, energy } = request;
+    const tracks = new Map<string, GeneratedTrack>();
+    const trackIds = new Map<GeneratedTrack, string>();
+
+    for (let i = 0; i < sources.length; i++) {
+      onProgress?.(i, sources.length + 1);
+      const items = await spotifyClient.getAllTracksFromSource(
+        sources[i],
+        userId
+      );
+      items.filter(isTrackItem).forEach(({ track, is_local }) => {
+        if (is_local || track.is_playable === false || tracks.has(track.uri)) {
+          return;
+        }
+        const generated: GeneratedTrack = {
+          uri: track.uri,
+          name: track.name,
+          artists: track.artists.map((artist) => artist.name),
+          durationMs: track.duration_ms,
+          tempo: null,
+          energy: null,
+        };
+        tracks.set(track.uri, generated);
+        trackIds.set(generated, track.id);
+      });
+    }
+
+    const constrained = Boolean(tempo || tempoCurve?.length || energy);
+    if (!constrained) return Array.from(tracks.values());
+
+    const features = await spotifyClient.getAudioFeatures(
+      Array.from(trackIds.values()),
+      userId
+    );
+
+    const [minTempo, maxTempo] = tempoCurve?.length
+      ? [
+          Math.max(
+            tempo?.min ?? 0,
+            Math.min(...tempoCurve) - TEMPO_CURVE_SLACK
+          ),
+          Math.min(
+            tempo?.max ?? Infinity,
+            Math.max(...tempoCurve) + TEMPO_CURVE_SLACK
+          ),
+        ]
+      : [tempo?.min ?? 0, tempo?.max ?? Infinity];
+
+    return Array.from(tracks.values()).filter((track) => {
+      const feature = features.get(trackIds.get(track)!);
+      if (!feature) return false;
+
+      track.tempo = feature.tempo;
+      track.energy = feature.energy;
+      return (
+        feature.tempo >= minTempo &&
+        feature.tempo <= maxTempo &&
+        feature.energy >= (energy?.min ?? 0) &&
+        feature.energy <= (energy?.max ?? 1)
+      );
+    });
+  }
+
+  /**
+   * Subset sum over track durations in whole seconds: find the reachable
+   * total closest to the target and walk back through the tracks that
+   * reached it. Tracks earlier in `candidates` are preferred. The table
+   * grows with the target, so the event loop gets a turn between tracks.
+   */
+  private async select(
+    candidates: GeneratedTrack[],
+    durationMs: number,
+    toleranceMs: number
+  ): Promise<GeneratedTrack[]> {
+    const seconds = candidates.map((track) =>
+      Math.round(track.durationMs / 1000)
+    );
+    const goal = Math.round(durationMs / 1000);
+    const limit = Math.round(
+      (durationMs + Math.min(toleranceMs, MAX_TOLERANCE_MS)) / 1000
+    );
+
+    // via[sum] is the candidate that first made `sum` reachable; sums below
+    // it were reachable with earlier candidates only
+    const reached = new Uint8Array(limit + 1);
+    const via = new Int32Array(limit + 1).fill(-1);
+    reached[0] = 1;
+
+    const yieldIfBusy = createYielder();
+    for (let index = 0; index < seconds.length; index++) {
+      const duration = seconds[index];
+      if (duration <= 0) continue;
+      for (let sum = limit; sum >= duration; sum--) {
+        if (!reached[sum] && reached[sum - duration]) {
+          reached[sum] = 1;
+          via[sum] = index;
+        }
+      }
+      await yieldIfBusy();
+    }
+
+    let best = 0;
+    for (let sum = 1; sum <= limit; sum++) {
+      if (reached[sum] && Math.abs(sum - goal) < Math.abs(best - goal)) {
+        best = sum;
+      }
+    }
+
+    const picked: GeneratedTrack[] = [];
+    for (let sum = best; sum > 0; sum -= seconds[via[sum]]) {
+      picked.push(candidates[via[sum]]);
+    }
+    return picked.reverse();
+  }
+
+  /**
+   * Order tracks so their tempos follow the curve. Matching the slowest
+   * track to the slowest point of the curve and so on keeps the total
+   * distance from the curve as small as possible.
+   */
+  private followCurve(
+    tracks: GeneratedTrack[],
+    curve: number[]
+  ): GeneratedTrack[] {
+    const slots = tracks
+      .map((_, slot) => ({
+        slot,
+        target: curveAt(curve, (slot + 0.5) / tracks.length),
+      }))
+      .sort((a, b) => a.target - b.target);
+    const byTempo = [...tracks].sort((a, b) => a.tempo! - b.tempo!);
+
+    const ordered = new Array<GeneratedTrack>(tracks.length);
+    slots.forEach(({ slot }, rank) => {
+      ordered[slot] = byTempo[rank];
+    });
+    return ordered;
+  }
+}
+
+// Create and export default instance
+const playlistGenerator = new PlaylistGenerator();
+export default playlistGenerator;
@@ -0,0 +1,365 @@
+// File: src/utils/playlistGenres.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import { isTrackItem } from "./spotifyGuards";
+import { increment, topCounts } from "./utilHelpers";
+import {
+  GenreBuckets,
+  GenreSplitOptions,
+  GenreSplitPlan,
+  GenreSplitResult,
+  PlaylistGenreReport,
+  ProgressCallback,
+  SpotifyPlaylistFull,
+  TrackGenres,
+} from "../types/types";
+
+/**
+ * Default parent buckets. A micro-genre goes to the bucket of the keyword
+ * that ends last in its name, so "indie pop" is pop and "country rock" is
+ * rock; on ties the longer keyword wins.
+ */
+export const DEFAULT_GENRE_BUCKETS: GenreBuckets = {
+  electronic: [
+    "electronic",
+    "electronica",
+    "electro",
+    "edm",
+    "techno",
+    "house",
+    "trance",
+    "dubstep",
+    "drum and bass",
+    "dnb",
+    "garage",
+    "breakbeat",
+    "ambient",
+    "idm",
+    "synthwave",
+    "downtempo",
+    "hardstyle",
+    "bass music",
+  ],
+  "hip hop": ["hip hop", "rap", "trap", "drill", "grime", "boom bap"],
+  "r&b": ["r&b", "soul", "funk", "motown", "disco", "new jack swing"],
+  rock: ["rock", "grunge", "punk", "post-punk", "emo", "shoegaze", "new wave"],
+  metal: ["metal", "metalcore", "deathcore", "djent", "hardcore"],
+  pop: ["pop", "boy band", "girl group", "eurovision"],
+  indie: ["indie", "alternative", "lo-fi", "bedroom"],
+  folk: ["folk", "singer-songwriter", "americana", "bluegrass", "acoustic"],
+  country: ["country", "honky tonk"],
+  jazz: ["jazz", "bebop", "swing", "big band", "bossa nova"],
+  classical: [
+    "classical",
+    "orchestra",
+    "baroque",
+    "opera",
+    "choral",
+    "soundtrack",
+    "score",
+  ],
+  latin: [
+    "latin",
+    "latino",
+    "reggaeton",
+    "salsa",
+    "bachata",
+    "cumbia",
+    "urbano",
+    "corrido",
+    "samba",
+  ],
+  reggae: ["reggae", "dancehall", "dub", "ska"],
+  blues: ["blues"],
+  african: ["afrobeat", "afrobeats", "afropop", "amapiano", "highlife"],
+};
+
+// Bucket of tracks whose genres match no bucket, or that have none
+export const OTHER_BUCKET = "other";
+
+const DEFAULT_MIN_SIZE = 10;
+
+// Micro-genres listed per bucket summary
+const SUMMARY_GENRES = 5;
+
+function isWordCharacter(character: string | undefined): boolean {
+  return character !== undefined && /[a-z0-9]/.test(character);
+}
+
+/**
+ * Find the bucket a micro-genre belongs to
+ * @returns The bucket name, or null if no keyword matches
+ */
+export function bucketForGenre(
+  genre: string,
+  buckets: GenreBuckets = DEFAULT_GENRE_BUCKETS
+): string | null {
+  const name = genre.toLowerCase();
+  let best: { bucket: string; end: number; length: number } | null = null;
+
+  for (const [bucket, keywords] of Object.entries(buckets)) {
+    for (const keyword of keywords) {
+      const word = keyword.toLowerCase();
+      for (
+        let index = name.indexOf(word);
+        index !== -1;
+        index = name.indexOf(word, index + 1)
+      ) {
+        const end = index + word.length;
+        // Whole words only: "rap" is not in "trap"
+        if (isWordCharacter(name[index - 1]) || isWordCharacter(name[end])) {
+          continue;
+        }
+        if (
+          !best ||
+          end > best.end ||
+          (end === best.end && word.length > best.length)
+        ) {
+          best = { bucket, end, length: word.length };
+        }
+      }
+    }
+  }
+
+  return best?.bucket ?? null;
+}
+
+/**
+ * PlaylistGenres tags playlist tracks with their artists' genres and
+ * splits playlists into one playlist per genre bucket
+ */
+export class PlaylistGenres {
+  /**
+   * Resolve the genres and bucket of every track in a playlist. Local
+   * files and episodes have no artist genres and are left out.
+   */
+  async tag(
+    playlistId: string,
+    buckets: GenreBuckets = DEFAULT_GENRE_BUCKETS,
+    userId: string = "default"
+  ): Promise<PlaylistGenreReport> {
+    const { playlist, tracks } = await this.resolve(
+      playlistId,
+      buckets,
+      userId
+    );
+
+    return {
+      playlistId,
+      snapshotId: playlist.snapshot_id,
+      tracks,
+      buckets: this.summarize(tracks, buckets),
+    };
+  }
+
+  private async resolve(
+    playlistId: string,
+    buckets: GenreBuckets,
+    userId: string
+  ): Promise<{ playlist: SpotifyPlaylistFull; tracks: TrackGenres[] }> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+    const artists = await spotifyClient.getArtists(
+      items
+        .filter(isTrackItem)
+        .flatMap((item) => item.track.artists.map((artist) => artist.id)),
+      userId
+    );
+
+    const bucketOrder = Object.keys(buckets);
+    const tracks: TrackGenres[] = [];
+    items.forEach((item, position) => {
+      if (!isTrackItem(item) || item.is_local) return;
+      const { track } = item;
+
+      const genres = Array.from(
+        new Set(
+          track.artists.flatMap(
+            (artist) => artists.get(artist.id)?.genres ?? []
+          )
+        )
+      );
+
+      // The bucket most of the track's genres fall into; ties go to the
+      // bucket listed first
+      const counts = new Map<string, number>();
+      genres.forEach((genre) => {
+        const bucket = bucketForGenre(genre, buckets);
+        if (bucket) increment(counts, bucket);
+      });
+      const [bucket] = Array.from(counts).sort(
+        (a, b) =>
+          b[1] - a[1] || bucketOrder.indexOf(a[0]) - bucketOrder.indexOf(b[0])
+      )[0] ?? [OTHER_BUCKET];
+
+      tracks.push({
+        position,
+        uri: track.uri,
+        name: track.name,
+        artists: track.artists.map((artist) => artist.name),
+        genres,
+        bucket,
+      });
+    });
+
+    return { playlist, tracks };
+  }
+
+  /**
+   * Plan the playlists a split would create without creating them
+   */
+  async previewSplit(
+    playlistId: string,
+    options: GenreSplitOptions = {},
+    userId: string = "default"
+  ): Promise<GenreSplitPlan> {
+    const minSize = options.minSize ?? DEFAULT_MIN_SIZE;
+    const buckets = options.buckets ?? DEFAULT_GENRE_BUCKETS;
+    const { playlist, tracks } = await this.resolve(
+      playlistId,
+      buckets,
+      userId
+    );
+
+    const uris = new Map<string, Set<string>>();
+    tracks.forEach((track) => {
+      const bucketUris = uris.get(track.bucket) ?? new Set<string>();
+      bucketUris.add(track.uri);
+      uris.set(track.bucket, bucketUris);
+    });
+
+    const plan: GenreSplitPlan = {
+      playlistId,
+      snapshotId: playlist.snapshot_id,
+      playlists: [],
+      skipped: [],
+    };
+    this.summarize(tracks, buckets).forEach(({ bucket }) => {
+      const bucketUris = Array.from(uris.get(bucket)!);
+      if (bucketUris.length < minSize) {
+        plan.skipped.push({ bucket, tracks: bucketUris.length });
+      } else {
+        plan.playlists.push({
+          bucket,
+          name: `${playlist.name} – ${bucket}`,
+          uris: bucketUris,
+        });
+      }
+    });
+
+    return plan;
+  }
+
+  /**
+   * Split a playlist into one new playlist per genre bucket. The source
+   * playlist is left as it is.
+   * @throws SpotifyApiError naming the playlists already created if the
+   * split fails partway
+   */
+  async split(
+    playlistId: string,
+    options: GenreSplitOptions = {},
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<GenreSplitResult> {
+    const plan = await this.previewSplit(playlistId, options, userId);
+    if (plan.playlists.length === 0) {
+      throw new SpotifyApiError(
+        `No genre bucket has at least ${
+          options.minSize ?? DEFAULT_MIN_SIZE
+        } tracks`,
+        400
+      );
+    }
+
+    const result: GenreSplitResult = {
+      playlistId,
+      playlists: [],
+      skipped: plan.skipped,
+    };
+    onProgress?.(0, plan.playlists.length);
+
+    try {
+      for (let i = 0; i < plan.playlists.length; i++) {
+        const { bucket, name, uris } = plan.playlists[i];
+        const created = await spotifyClient.createPlaylist(
+          {
+            name,
+            description: `${bucket} tracks split from a playlist by genre`,
+            public: false,
+          },
+          userId
+        );
+        const entry = { bucket, name, playlistId: created.id, tracks: 0 };
+        result.playlists.push(entry);
+
+        await spotifyClient.addTracksToPlaylist(
+          created.id,
+          uris,
+          undefined,
+          userId
+        );
+        entry.tracks = uris.length;
+        onProgress?.(i + 1, plan.playlists.length);
+      }
+    } catch (error: any) {
+      if (result.playlists.length === 0) throw error;
+
+      const created = result.playlists
+        .map(
+          ({ name, playlistId, tracks }) =>
+            `"${name}" (${playlistId}, ${tracks} tracks)`
+        )
+        .join(", ");
+      throw new SpotifyApiError(
+        `Split by genre failed after creating ${created}: ${
+          error?.message || String(error)
+        }`,
+        error instanceof SpotifyApiError ? error.status : 500
+      );
+    }
+
+    console.log(
+      `Split playlist ${playlistId} into ${result.playlists.length} genre playlists`
+    );
+    return result;
+  }
+
+  /**
+   * Track counts and most frequent micro-genres per bucket, largest first
+   */
+  private summarize(
+    tracks: TrackGenres[],
+    buckets: GenreBuckets
+  ): PlaylistGenreReport["buckets"] {
+    const sizes = new Map<string, number>();
+    const genres = new Map<string, Map<string, number>>();
+
+    tracks.forEach((track) => {
+      increment(sizes, track.bucket);
+      const counts = genres.get(track.bucket) ?? new Map<string, number>();
+      // Only the genres that put tracks in this bucket
+      track.genres
+        .filter(
+          (genre) =>
+            (bucketForGenre(genre, buckets) ?? OTHER_BUCKET) === track.bucket
+        )
+        .forEach((genre) => increment(counts, genre));
+      genres.set(track.bucket, counts);
+    });
+
+    return topCounts(sizes, sizes.size).map(([bucket, count]) => ({
+      bucket,
+      tracks: count,
+      genres: topCounts(genres.get(bucket)!, SUMMARY_GENRES).map(
+        ([genre]) => genre
+      ),
+    }));
+  }
+}
+
+// Create and export default instance
+const playlistGenres = new PlaylistGenres();
+export default playlistGenres;
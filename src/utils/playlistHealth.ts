@@ -0,0 +1,237 @@
+// File: src/utils/playlistHealth.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import playlistImporter from "./playlistImporter";
+import {
+  PlaylistHealthIssue,
+  PlaylistHealthIssueKind,
+  PlaylistHealthReport,
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  PlaylistTrackRemoval,
+  ProgressCallback,
+} from "../types/types";
+
+// Makes Spotify relink tracks and report playability for the user's country
+const MARKET = "from_token";
+
+// Issues that can be fixed by removing or replacing the entry
+const FIXABLE_KINDS: PlaylistHealthIssueKind[] = ["unavailable", "local"];
+
+/**
+ * PlaylistHealth finds tracks that no longer play for the user and
+ * replaces them with playable alternatives
+ */
+export class PlaylistHealth {
+  /**
+   * Scan a playlist for unavailable, removed, local and relinked tracks
+   * @param suggest Search a playable replacement for each unavailable track
+   */
+  async scan(
+    playlistId: string,
+    userId: string = "default",
+    suggest: boolean = false
+  ): Promise<PlaylistHealthReport> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId,
+      { market: MARKET }
+    );
+
+    const issues = items
+      .map((item, position) => this.inspect(item, position))
+      .filter((issue): issue is PlaylistHealthIssue => issue !== null);
+
+    if (suggest) {
+      for (const issue of issues) {
+        if (issue.kind === "unavailable") {
+          issue.replacement = await this.findReplacement(
+            items[issue.position],
+            userId
+          );
+        }
+      }
+    }
+
+    const counts: Record<PlaylistHealthIssueKind, number> = {
+      unavailable: 0,
+      removed: 0,
+      local: 0,
+      relinked: 0,
+    };
+    issues.forEach((issue) => counts[issue.kind]++);
+
+    return {
+      playlistId,
+      snapshotId: playlist.snapshot_id,
+      scannedAt: new Date().toISOString(),
+      total: items.length,
+      counts,
+      issues,
+    };
+  }
+
+  /**
+   * Remove unavailable (or local) entries, inserting a replacement at the
+   * same position when one is given
+   * @param fixes Positions from a scan of `snapshotId`, with optional
+   * replacement URIs
+   */
+  async fix(
+    playlistId: string,
+    snapshotId: string,
+    fixes: { position: number; uri?: string }[],
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { removed: number; replaced: number }> {
+    const report = await this.scan(playlistId, userId, false);
+
+    if (report.snapshotId !== snapshotId) {
+      throw new SpotifyApiError(
+        "Playlist changed since the health scan; scan again",
+        409
+      );
+    }
+
+    const fixable = new Map<number, PlaylistHealthIssue>();
+    report.issues
+      .filter((issue) => FIXABLE_KINDS.includes(issue.kind) && issue.uri)
+      .forEach((issue) => fixable.set(issue.position, issue));
+
+    const unknown = fixes.filter((fix) => !fixable.has(fix.position));
+    if (unknown.length > 0) {
+      throw new SpotifyApiError(
+        `Positions cannot be fixed: ${unknown
+          .map((fix) => fix.position)
+          .join(", ")}`,
+        400
+      );
+    }
+
+    if (fixes.length === 0) {
+      return { snapshot_id: snapshotId, removed: 0, replaced: 0 };
+    }
+
+    const removals = new Map<string, number[]>();
+    fixes.forEach(({ position }) => {
+      const uri = fixable.get(position)!.uri!;
+      removals.set(uri, [...(removals.get(uri) ?? []), position]);
+    });
+
+    const replacements = fixes
+      .filter((fix) => fix.uri)
+      .sort((a, b) => a.position - b.position);
+    const total = 1 + replacements.length;
+
+    onProgress?.(0, total);
+    let result = await spotifyClient.removeTracksFromPlaylist(
+      playlistId,
+      Array.from(removals).map(
+        ([uri, positions]): PlaylistTrackRemoval => ({ uri, positions })
+      ),
+      snapshotId,
+      userId
+    );
+    onProgress?.(1, total);
+
+    // Inserting in ascending order puts every replacement back at its
+    // original position, less the entries removed without replacement
+    const removedOnly = fixes
+      .filter((fix) => !fix.uri)
+      .map((fix) => fix.position);
+    for (let i = 0; i < replacements.length; i++) {
+      const { position, uri } = replacements[i];
+      result = await spotifyClient.addTracksToPlaylist(
+        playlistId,
+        [uri!],
+        position - removedOnly.filter((removed) => removed < position).length,
+        userId
+      );
+      onProgress?.(2 + i, total);
+    }
+
+    console.log(
+      `Fixed ${fixes.length} entries of playlist ${playlistId} (${replacements.length} replaced)`
+    );
+    return {
+      ...result,
+      removed: fixes.length,
+      replaced: replacements.length,
+    };
+  }
+
+  /**
+   * Describe what is wrong with an entry, if anything
+   */
+  private inspect(
+    item: PlaylistTrackItem,
+    position: number
+  ): PlaylistHealthIssue | null {
+    const { track } = item;
+    const issue = {
+      position,
+      uri: track?.uri ?? null,
+      name: track?.name ?? null,
+      artists:
+        track?.type === "track"
+          ? track.artists.map((artist) => artist.name)
+          : [],
+    };
+
+    if (!track) {
+      return { kind: "removed", ...issue };
+    }
+    if (item.is_local) {
+      return { kind: "local", ...issue };
+    }
+    if (track.is_playable === false) {
+      return {
+        kind: "unavailable",
+        ...issue,
+        reason: track.restrictions?.reason,
+      };
+    }
+    if (track.type === "track" && track.linked_from) {
+      return {
+        kind: "relinked",
+        ...issue,
+        uri: track.linked_from.uri,
+        relinkedTo: track.uri,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Search a playable version of an unavailable track, preferring the
+   * same recording through its ISRC
+   */
+  private async findReplacement(
+    item: PlaylistTrackItem,
+    userId: string
+  ): Promise<PlaylistHealthIssue["replacement"]> {
+    const { track } = item;
+    if (track?.type !== "track") return null;
+
+    const result = await playlistImporter.matchEntry(
+      {
+        line: 0,
+        title: track.name,
+        artist: track.artists[0]?.name ?? "",
+        album: track.album.name,
+        isrc: track.external_ids?.isrc,
+        durationMs: track.duration_ms,
+      },
+      userId,
+      MARKET
+    );
+
+    return result.status !== "not_found" && result.match?.uri !== track.uri
+      ? result.match
+      : null;
+  }
+}
+
+// Create and export default instance
+const playlistHealth = new PlaylistHealth();
+export default playlistHealth;
@@ -0,0 +1,284 @@
+// File: src/utils/playlistHistory.ts
+
+import * as dotenv from "dotenv";
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import playlistHistoryStore from "./playlistHistoryStore";
+import playlistReorder from "./playlistReorder";
+import {
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  PlaylistVersion,
+  PlaylistVersionDiff,
+  PlaylistVersionSummary,
+  PlaylistVersionTrack,
+  ProgressCallback,
+  SpotifyPlaylistFull,
+} from "../types/types";
+
+dotenv.config();
+
+// Reads of a playlist that keeps changing while its tracks are fetched
+const MAX_CAPTURE_ATTEMPTS = 3;
+
+// Oldest versions beyond this are dropped; invalid values fall back to 25
+const MAX_VERSIONS = Math.max(
+  parseInt(process.env.PLAYLIST_HISTORY_MAX_VERSIONS || "25", 10) || 25,
+  1
+);
+
+// Playlists seen in passing are checked for new snapshots at most this often
+const OBSERVE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * PlaylistHistory records a playlist's full track list each time a new
+ * snapshot is seen, and can diff or restore recorded versions
+ */
+export class PlaylistHistory {
+  // When each playlist was last observed, keyed by user and playlist
+  private observedAt = new Map<string, number>();
+
+  /**
+   * Record a playlist's current contents if its snapshot is new
+   * @returns The recorded (or already known) version
+   */
+  async record(
+    playlist: SpotifyPlaylistFull,
+    items: PlaylistTrackItem[],
+    userId: string = "default"
+  ): Promise<PlaylistVersion> {
+    const existing = await playlistHistoryStore.get(
+      playlist.id,
+      playlist.snapshot_id,
+      userId
+    );
+    if (existing) return existing;
+
+    const version: PlaylistVersion = {
+      playlistId: playlist.id,
+      snapshotId: playlist.snapshot_id,
+      name: playlist.name,
+      recordedAt: new Date().toISOString(),
+      tracks: items
+        .filter((item) => item.track)
+        .map((item) => ({
+          uri: item.track!.uri,
+          name: item.track!.name,
+          artists:
+            item.track!.type === "track"
+              ? item.track!.artists.map((artist) => artist.name)
+              : [],
+        })),
+    };
+
+    await playlistHistoryStore.save(version, userId);
+    await this.prune(playlist.id, userId);
+    console.log(
+      `Recorded version ${version.snapshotId} of playlist ${playlist.id}`
+    );
+    return version;
+  }
+
+  /**
+   * Record a playlist's current contents. Tracks are only fetched when the
+   * current snapshot has not been recorded yet, and the snapshot is read
+   * again afterwards, so tracks are never recorded under another version.
+   * @throws SpotifyApiError (409) if the playlist keeps changing
+   */
+  async capture(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersion> {
+    const known = await playlistHistoryStore.get(
+      playlistId,
+      await spotifyClient.getPlaylistSnapshotId(playlistId, userId),
+      userId
+    );
+    if (known) return known;
+
+    for (let attempt = 1; attempt <= MAX_CAPTURE_ATTEMPTS; attempt++) {
+      const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+        playlistId,
+        userId
+      );
+      const current = await spotifyClient.getPlaylistSnapshotId(
+        playlistId,
+        userId
+      );
+      if (current === playlist.snapshot_id) {
+        return this.record(playlist, items, userId);
+      }
+      console.warn(`Playlist ${playlistId} changed while it was read`);
+    }
+
+    throw new SpotifyApiError(
+      `Playlist ${playlistId} kept changing while it was read`,
+      409
+    );
+  }
+
+  /**
+   * Record a playlist seen elsewhere, at most once per OBSERVE_INTERVAL_MS.
+   * The playlist seen may come from the cache, so it is captured afresh.
+   */
+  async observe(
+    playlist: SpotifyPlaylistFull,
+    userId: string = "default"
+  ): Promise<void> {
+    const key = `${userId}:${playlist.id}`;
+    const now = Date.now();
+    if (now - (this.observedAt.get(key) ?? 0) < OBSERVE_INTERVAL_MS) return;
+
+    this.observedAt.forEach((observedAt, observed) => {
+      if (now - observedAt >= OBSERVE_INTERVAL_MS) {
+        this.observedAt.delete(observed);
+      }
+    });
+    this.observedAt.set(key, now);
+    await this.capture(playlist.id, userId);
+  }
+
+  /**
+   * List recorded versions of a playlist, newest first
+   */
+  async list(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersionSummary[]> {
+    const versions = await playlistHistoryStore.list(playlistId, userId);
+    return versions.reverse().map(({ tracks, ...version }) => ({
+      ...version,
+      trackCount: tracks.length,
+    }));
+  }
+
+  /**
+   * Get a recorded version
+   * @throws SpotifyApiError (404) if the version is unknown
+   */
+  async get(
+    playlistId: string,
+    snapshotId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersion> {
+    const version = await playlistHistoryStore.get(
+      playlistId,
+      snapshotId,
+      userId
+    );
+    if (!version) {
+      throw new SpotifyApiError(
+        `Version ${snapshotId} of playlist ${playlistId} not found`,
+        404
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Compare two versions. Repeated tracks are paired in order of
+   * appearance; paired tracks off the longest run kept in the same
+   * relative order are reported as moved.
+   */
+  async diff(
+    playlistId: string,
+    fromSnapshotId: string,
+    toSnapshotId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersionDiff> {
+    const from = await this.get(playlistId, fromSnapshotId, userId);
+    const to = await this.get(playlistId, toSnapshotId, userId);
+
+    // Queue the positions of each URI in the newer version
+    const toPositions = new Map<string, number[]>();
+    to.tracks.forEach((track, position) => {
+      const positions = toPositions.get(track.uri) ?? [];
+      positions.push(position);
+      toPositions.set(track.uri, positions);
+    });
+
+    const removed: PlaylistVersionDiff["removed"] = [];
+    const pairs: { from: number; to: number }[] = [];
+    from.tracks.forEach((track, position) => {
+      const match = toPositions.get(track.uri)?.shift();
+      if (match === undefined) {
+        removed.push({ ...track, position });
+      } else {
+        pairs.push({ from: position, to: match });
+      }
+    });
+
+    const paired = new Set(pairs.map((pair) => pair.to));
+    const added = to.tracks
+      .map((track, position) => ({ ...track, position }))
+      .filter(({ position }) => !paired.has(position));
+
+    const kept = playlistReorder.longestIncreasingSubsequence(
+      pairs.map((pair) => pair.to)
+    );
+    const moved = pairs
+      .filter((_, index) => !kept.has(index))
+      .map((pair) => ({ ...to.tracks[pair.to], from: pair.from, to: pair.to }));
+
+    return {
+      playlistId,
+      from: fromSnapshotId,
+      to: toSnapshotId,
+      added,
+      removed,
+      moved,
+    };
+  }
+
+  /**
+   * Rewrite a playlist to a recorded version. The current contents are
+   * recorded first so the restore itself can be undone.
+   */
+  async restore(
+    playlistId: string,
+    snapshotId: string,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { tracks: number }> {
+    const version = await this.get(playlistId, snapshotId, userId);
+
+    onProgress?.(0, 3);
+    await this.capture(playlistId, userId);
+    onProgress?.(1, 3);
+
+    // Local files cannot be added through the API
+    const uris = version.tracks
+      .map((track) => track.uri)
+      .filter((uri) => !uri.startsWith("spotify:local:"));
+    const result = await spotifyClient.replacePlaylistTracks(
+      playlistId,
+      uris,
+      userId
+    );
+    onProgress?.(2, 3);
+
+    await this.capture(playlistId, userId);
+    onProgress?.(3, 3);
+
+    console.log(`Restored playlist ${playlistId} to version ${snapshotId}`);
+    return { snapshot_id: result.snapshot_id, tracks: uris.length };
+  }
+
+  /**
+   * Drop the oldest versions beyond MAX_VERSIONS
+   */
+  private async prune(playlistId: string, userId: string): Promise<void> {
+    const versions = await playlistHistoryStore.list(playlistId, userId);
+    const excess = versions.length - MAX_VERSIONS;
+    if (excess > 0) {
+      await playlistHistoryStore.remove(
+        playlistId,
+        versions.slice(0, excess).map((version) => version.snapshotId),
+        userId
+      );
+    }
+  }
+}
+
+// Create and export default instance
+const playlistHistory = new PlaylistHistory();
+export default playlistHistory;
@@ -0,0 +1,253 @@
+// File: src/utils/playlistHistoryStore.ts
+
+import * as fs from "fs";
+import path from "path";
+import Redis from "ioredis";
+import * as dotenv from "dotenv";
+import { PlaylistVersion } from "../types/types";
+
+dotenv.config();
+
+// Versions of one playlist keyed by snapshot ID
+type HistoryFile = Record<string, PlaylistVersion>;
+
+/**
+ * PlaylistHistoryStore keeps past versions of playlists, one per snapshot
+ * Uses Redis for primary storage with file-based fallback
+ */
+export class PlaylistHistoryStore {
+  private redis: Redis | null = null;
+  private historyPrefix = "spotify_playlist_history:";
+  private isProduction: boolean;
+
+  /**
+   * Create a new PlaylistHistoryStore instance
+   */
+  constructor() {
+    this.isProduction = process.env.NODE_ENV === "production";
+
+    // Setup Redis if connection string is available
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      try {
+        console.log("Connecting to Redis...");
+
+        // Create a connection timeout
+        const connectionTimeout = setTimeout(() => {
+          console.error("Redis connection timeout after 5 seconds");
+          console.log("Falling back to file storage");
+          this.redis = null;
+        }, 5000); // 5 second timeout
+
+        this.redis = new Redis(redisUrl);
+
+        // Add event listeners for successful connection and errors
+        this.redis.on("connect", () => {
+          clearTimeout(connectionTimeout);
+          console.log("Successfully connected to Redis");
+        });
+
+        this.redis.on("error", (err) => {
+          console.error("Redis connection error:", err);
+          if (this.redis) {
+            this.redis
+              .quit()
+              .catch((e) =>
+                console.error("Error closing Redis connection:", e)
+              );
+            this.redis = null;
+          }
+        });
+      } catch (error) {
+        console.error("Failed to connect to Redis:", error);
+        console.warn("Falling back to file storage");
+        this.redis = null;
+      }
+    } else {
+      console.warn("REDIS_URL not found in environment, using file storage");
+    }
+  }
+
+  private get envSuffix(): string {
+    return this.isProduction ? "prod" : "dev";
+  }
+
+  /**
+   * Redis hash holding the versions of one playlist, keyed by snapshot ID
+   */
+  private getHistoryKey(playlistId: string, userId: string): string {
+    return `${this.historyPrefix}${this.envSuffix}:${userId}:${playlistId}`;
+  }
+
+  /**
+   * File holding the versions of one playlist when Redis is unavailable,
+   * so each read or write touches only that playlist's versions
+   */
+  private getHistoryFile(playlistId: string, userId: string): string {
+    return path.join(
+      `.spotify-playlist-history-${this.envSuffix}`,
+      encodeURIComponent(userId),
+      `${encodeURIComponent(playlistId)}.json`
+    );
+  }
+
+  private readFile(playlistId: string, userId: string): HistoryFile {
+    const file = this.getHistoryFile(playlistId, userId);
+    if (!fs.existsSync(file)) return {};
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  private writeFile(
+    playlistId: string,
+    userId: string,
+    data: HistoryFile
+  ): void {
+    const file = this.getHistoryFile(playlistId, userId);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data), "utf8");
+  }
+
+  /**
+   * List the versions of a playlist, oldest first
+   */
+  async list(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersion[]> {
+    let versions: PlaylistVersion[] = [];
+
+    try {
+      if (this.redis) {
+        const data = await this.redis.hgetall(
+          this.getHistoryKey(playlistId, userId)
+        );
+        versions = Object.values(data).map(
+          (version) => JSON.parse(version) as PlaylistVersion
+        );
+      } else {
+        versions = Object.values(this.readFile(playlistId, userId));
+      }
+    } catch (error) {
+      console.error("Failed to list playlist versions:", error);
+    }
+
+    return versions.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  }
+
+  /**
+   * Get the version of a playlist at a snapshot
+   */
+  async get(
+    playlistId: string,
+    snapshotId: string,
+    userId: string = "default"
+  ): Promise<PlaylistVersion | null> {
+    try {
+      if (this.redis) {
+        const data = await this.redis.hget(
+          this.getHistoryKey(playlistId, userId),
+          snapshotId
+        );
+        return data ? (JSON.parse(data) as PlaylistVersion) : null;
+      }
+
+      return this.readFile(playlistId, userId)[snapshotId] ?? null;
+    } catch (error) {
+      console.error("Failed to get playlist version:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a snapshot has been recorded
+   */
+  async has(
+    playlistId: string,
+    snapshotId: string,
+    userId: string = "default"
+  ): Promise<boolean> {
+    try {
+      if (this.redis) {
+        const exists = await this.redis.hexists(
+          this.getHistoryKey(playlistId, userId),
+          snapshotId
+        );
+        return exists === 1;
+      }
+
+      return Boolean(this.readFile(playlistId, userId)[snapshotId]);
+    } catch (error) {
+      console.error("Failed to check playlist version:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Store a version
+   */
+  async save(
+    version: PlaylistVersion,
+    userId: string = "default"
+  ): Promise<void> {
+    try {
+      if (this.redis) {
+        await this.redis.hset(
+          this.getHistoryKey(version.playlistId, userId),
+          version.snapshotId,
+          JSON.stringify(version)
+        );
+      } else {
+        const data = this.readFile(version.playlistId, userId);
+        data[version.snapshotId] = version;
+        this.writeFile(version.playlistId, userId, data);
+      }
+    } catch (error) {
+      console.error("Failed to save playlist version:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete versions of a playlist
+   */
+  async remove(
+    playlistId: string,
+    snapshotIds: string[],
+    userId: string = "default"
+  ): Promise<void> {
+    if (snapshotIds.length === 0) return;
+
+    try {
+      if (this.redis) {
+        await this.redis.hdel(
+          this.getHistoryKey(playlistId, userId),
+          ...snapshotIds
+        );
+      } else {
+        const data = this.readFile(playlistId, userId);
+        snapshotIds.forEach((snapshotId) => delete data[snapshotId]);
+        this.writeFile(playlistId, userId, data);
+      }
+    } catch (error) {
+      console.error("Failed to remove playlist versions:", error);
+    }
+  }
+
+  /**
+   * Close Redis connection when shutting down
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      console.log("Redis playlist history connection closed");
+    }
+  }
+
+  getRedisStatus = (): boolean => {
+    return this.redis !== null;
+  };
+}
+
+// Create and export default instance
+const playlistHistoryStore = new PlaylistHistoryStore();
+export default playlistHistoryStore;
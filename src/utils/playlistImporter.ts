@@ -0,0 +1,490 @@
+// File: src/utils/playlistImporter.ts
+
+import spotifyClient from "./spotifyClient";
+import { normalizeText, normalizeTitle, songKey } from "./trackNormalizer";
+import {
+  ImportCandidate,
+  ImportEntry,
+  ImportFormat,
+  ImportMatch,
+  ImportReport,
+  PlaylistDetails,
+  PlaylistSnapshotResponse,
+  ProgressCallback,
+  SpotifyTrack,
+} from "../types/types";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "m3u", "text"];
+
+// Header names recognized in CSV files, after normalizeText
+const CSV_HEADERS: Record<keyof Omit<ImportEntry, "line">, string[]> = {
+  title: ["title", "name", "track", "track name", "song"],
+  artist: ["artist", "artists", "artist name", "artist name s"],
+  album: ["album", "album name"],
+  isrc: ["isrc"],
+  durationMs: ["duration ms", "duration", "length", "time"],
+  uri: ["uri", "spotify uri", "track uri"],
+};
+
+const TRACK_URI = /^spotify:track:[A-Za-z0-9]{22}$/;
+const TRACK_URL =
+  /open\.spotify\.com\/(?:intl-[a-z-]+\/)?track\/([A-Za-z0-9]{22})/;
+
+// Weights of the match score components
+const SCORE_WEIGHTS = { title: 0.55, artist: 0.3, duration: 0.15 };
+const MATCHED_SCORE = 0.85;
+const AMBIGUOUS_SCORE = 0.5;
+// Different songs scoring within this margin of the best are ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+const SEARCH_LIMIT = 10;
+const MAX_ALTERNATIVES = 5;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parse a duration given as milliseconds, seconds or m:ss
+ */
+function parseDuration(value: string): number | undefined {
+  const text = value.trim();
+  const clock = text.match(/^(?:(\d+):)?(\d+):(\d{2})$/);
+  if (clock) {
+    const [, hours = "0", minutes, seconds] = clock;
+    return (
+      (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000
+    );
+  }
+
+  const number = Number(text);
+  if (!text || Number.isNaN(number) || number <= 0) return undefined;
+  // Values this small are seconds; track lengths in ms are far larger
+  return number < 10000 ? number * 1000 : number;
+}
+
+/**
+ * Split "Artist - Title"; lines without a separator are a title only
+ */
+function splitArtistTitle(text: string): { artist: string; title: string } {
+  const match = text.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+  return match
+    ? { artist: match[1].trim(), title: match[2].trim() }
+    : { artist: "", title: text.trim() };
+}
+
+function decodeFileName(path: string): string {
+  const name = path
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/\.[a-z0-9]{2,4}$/i, "");
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function trackUriFrom(location: string): string | undefined {
+  if (TRACK_URI.test(location)) return location;
+  const url = location.match(TRACK_URL);
+  return url ? `spotify:track:${url[1]}` : undefined;
+}
+
+/**
+ * Share of the tokens of the longer text that also appear in the other
+ */
+function tokenOverlap(a: string, b: string): number {
+  const tokensA = new Set(a.split(" ").filter(Boolean));
+  const tokensB = new Set(b.split(" ").filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / Math.max(tokensA.size, tokensB.size);
+}
+
+/**
+ * PlaylistImporter parses uploaded track lists, matches each entry to a
+ * Spotify track through search, and creates playlists from the matches
+ */
+export class PlaylistImporter {
+  /**
+   * Detect the format of an uploaded file
+   */
+  detectFormat(content: string): ImportFormat {
+    const firstLine = content.trimStart().split(/\r?\n/, 1)[0] ?? "";
+    if (/^#EXTM3U/i.test(firstLine) || /^#EXTINF/im.test(content)) {
+      return "m3u";
+    }
+
+    const headers = parseCsv(firstLine)[0] ?? [];
+    const known = Object.values(CSV_HEADERS).flat();
+    return headers.filter((header) => known.includes(normalizeText(header)))
+      .length >= 2
+      ? "csv"
+      : "text";
+  }
+
+  /**
+   * Parse an uploaded file into entries; blank lines and comments are
+   * skipped
+   */
+  parse(content: string, format: ImportFormat): ImportEntry[] {
+    switch (format) {
+      case "csv":
+        return this.parseCsvEntries(content);
+      case "m3u":
+        return this.parseM3uEntries(content);
+      case "text":
+        return content
+          .split(/\r?\n/)
+          .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+          .filter(({ text }) => text && !text.startsWith("#"))
+          .map(({ text, line }) => {
+            const uri = trackUriFrom(text);
+            return uri
+              ? { line, title: "", artist: "", uri }
+              : { line, ...splitArtistTitle(text) };
+          });
+    }
+  }
+
+  /**
+   * Resolve every entry to a Spotify track
+   */
+  async match(
+    content: string,
+    format: ImportFormat = this.detectFormat(content),
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<ImportReport> {
+    const entries = this.parse(content, format);
+    const rows: ImportMatch[] = [];
+
+    onProgress?.(0, entries.length);
+    for (const entry of entries) {
+      rows.push(await this.matchEntry(entry, userId));
+      onProgress?.(rows.length, entries.length);
+    }
+
+    const count = (status: ImportMatch["status"]) =>
+      rows.filter((row) => row.status === status).length;
+
+    return {
+      format,
+      matched: count("matched"),
+      ambiguous: count("ambiguous"),
+      notFound: count("not_found"),
+      rows,
+    };
+  }
+
+  /**
+   * Create a playlist from confirmed track URIs
+   */
+  async create(
+    details: PlaylistDetails & { name: string },
+    uris: string[],
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse & { playlistId: string; added: number }> {
+    const playlist = await spotifyClient.createPlaylist(details, userId);
+    const result = await spotifyClient.addTracksToPlaylist(
+      playlist.id,
+      uris,
+      undefined,
+      userId
+    );
+
+    console.log(`Imported ${uris.length} tracks into playlist ${playlist.id}`);
+    return {
+      playlistId: playlist.id,
+      snapshot_id: result.snapshot_id,
+      added: uris.length,
+    };
+  }
+
+  /**
+   * Match one entry: a URI in the file is trusted, an ISRC is looked up
+   * exactly, and anything else is scored by title, artist and duration.
+   * With a market, only tracks playable there are considered.
+   */
+  async matchEntry(
+    entry: ImportEntry,
+    userId: string = "default",
+    market?: string
+  ): Promise<ImportMatch> {
+    if (entry.uri && TRACK_URI.test(entry.uri)) {
+      return {
+        entry,
+        status: "matched",
+        match: {
+          uri: entry.uri,
+          name: entry.title,
+          artists: entry.artist ? [entry.artist] : [],
+          album: entry.album ?? "",
+          duration_ms: entry.durationMs ?? 0,
+          score: 1,
+        },
+        alternatives: [],
+      };
+    }
+
+    if (entry.isrc) {
+      const tracks = await this.searchTracks(
+        `isrc:${entry.isrc}`,
+        userId,
+        market
+      );
+      if (tracks.length > 0) {
+        return {
+          entry,
+          status: "matched",
+          match: this.toCandidate(tracks[0], 1),
+          alternatives: [],
+        };
+      }
+    }
+
+    if (!entry.title) {
+      return { entry, status: "not_found", match: null, alternatives: [] };
+    }
+
+    const title = entry.title.replace(/"/g, "");
+    const artist = entry.artist.replace(/"/g, "");
+    let tracks = await this.searchTracks(
+      artist ? `track:${title} artist:${artist}` : `track:${title}`,
+      userId,
+      market
+    );
+    if (tracks.length === 0) {
+      // Field filters are strict; retry as free text
+      tracks = await this.searchTracks(
+        `${artist} ${normalizeTitle(title)}`.trim(),
+        userId,
+        market
+      );
+    }
+
+    const candidates = tracks
+      .map((track) => this.toCandidate(track, this.score(entry, track)))
+      .sort((a, b) => b.score - a.score);
+    const [best] = candidates;
+
+    if (!best || best.score < AMBIGUOUS_SCORE) {
+      return {
+        entry,
+        status: "not_found",
+        match: null,
+        alternatives: candidates.slice(0, MAX_ALTERNATIVES),
+      };
+    }
+
+    // The same song on another release is not a competing match
+    const bestKey = songKey(best.name, best.artists[0] ?? "");
+    const contested = candidates.some(
+      (candidate) =>
+        candidate.score >= best.score - AMBIGUITY_MARGIN &&
+        songKey(candidate.name, candidate.artists[0] ?? "") !== bestKey
+    );
+
+    return {
+      entry,
+      status:
+        best.score >= MATCHED_SCORE && !contested ? "matched" : "ambiguous",
+      match: best,
+      alternatives: candidates.slice(1, MAX_ALTERNATIVES + 1),
+    };
+  }
+
+  private async searchTracks(
+    query: string,
+    userId: string,
+    market?: string
+  ): Promise<SpotifyTrack[]> {
+    const response = await spotifyClient.search(
+      query,
+      "track",
+      SEARCH_LIMIT,
+      0,
+      userId,
+      { market }
+    );
+    return (response.tracks?.items ?? []).filter(
+      (track) => track && track.is_playable !== false
+    );
+  }
+
+  /**
+   * Weighted similarity of title, artist and duration; components the
+   * entry does not provide are left out
+   */
+  private score(entry: ImportEntry, track: SpotifyTrack): number {
+    const components: [number, number][] = [];
+
+    const entryTitle = normalizeTitle(entry.title);
+    const trackTitle = normalizeTitle(track.name);
+    components.push([
+      SCORE_WEIGHTS.title,
+      entryTitle === trackTitle ? 1 : tokenOverlap(entryTitle, trackTitle),
+    ]);
+
+    if (entry.artist) {
+      const entryArtist = normalizeText(entry.artist);
+      const names = track.artists.map((artist) => normalizeText(artist.name));
+      const similarity = Math.max(
+        tokenOverlap(entryArtist, names.join(" ")),
+        ...names.map((name) =>
+          name === entryArtist ? 1 : tokenOverlap(entryArtist, name)
+        )
+      );
+      components.push([SCORE_WEIGHTS.artist, similarity]);
+    }
+
+    if (entry.durationMs) {
+      // Full marks within 3 seconds, none beyond 30
+      const difference = Math.abs(entry.durationMs - track.duration_ms) / 1000;
+      components.push([
+        SCORE_WEIGHTS.duration,
+        Math.max(0, Math.min(1, (30 - difference) / 27)),
+      ]);
+    }
+
+    const weight = components.reduce((sum, [w]) => sum + w, 0);
+    const total = components.reduce((sum, [w, value]) => sum + w * value, 0);
+    return Math.round((total / weight) * 1000) / 1000;
+  }
+
+  private toCandidate(track: SpotifyTrack, score: number): ImportCandidate {
+    return {
+      uri: track.uri,
+      name: track.name,
+      artists: track.artists.map((artist) => artist.name),
+      album: track.album.name,
+      duration_ms: track.duration_ms,
+      score,
+    };
+  }
+
+  private parseCsvEntries(content: string): ImportEntry[] {
+    const [header = [], ...rows] = parseCsv(content);
+    const columns = new Map<keyof typeof CSV_HEADERS, number>();
+    header.forEach((name, index) => {
+      const normalized = normalizeText(name);
+      (Object.keys(CSV_HEADERS) as (keyof typeof CSV_HEADERS)[]).forEach(
+        (field) => {
+          if (!columns.has(field) && CSV_HEADERS[field].includes(normalized)) {
+            columns.set(field, index);
+          }
+        }
+      );
+    });
+
+    const get = (row: string[], field: keyof typeof CSV_HEADERS) => {
+      const index = columns.get(field);
+      return index === undefined ? "" : row[index]?.trim() ?? "";
+    };
+
+    return rows
+      .map((row, index) => ({ row, line: index + 2 }))
+      .filter(({ row }) => row.some((field) => field.trim()))
+      .map(({ row, line }) => {
+        const uri = trackUriFrom(get(row, "uri"));
+        return {
+          line,
+          // Strip the apostrophe our CSV export adds before formula-like values
+          title: get(row, "title").replace(/^'(?=[=+\-@])/, ""),
+          // Multiple artists are separated by semicolons
+          artist: get(row, "artist").split(";")[0].trim(),
+          album: get(row, "album") || undefined,
+          isrc: get(row, "isrc").toUpperCase() || undefined,
+          durationMs: parseDuration(get(row, "durationMs")),
+          uri,
+        };
+      });
+  }
+
+  private parseM3uEntries(content: string): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+    let info: { line: number; durationMs?: number; text: string } | null = null;
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+      const text = raw.trim();
+      const line = index + 1;
+
+      const extinf = text.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+      if (extinf) {
+        const seconds = Number(extinf[1]);
+        info = {
+          line,
+          durationMs: seconds > 0 ? seconds * 1000 : undefined,
+          text: extinf[2].trim(),
+        };
+        return;
+      }
+      if (!text || text.startsWith("#")) return;
+
+      // Without #EXTINF, fall back to the file name: "01 - Artist - Title.mp3"
+      const uri = trackUriFrom(text);
+      const current: { line: number; durationMs?: number; text: string } =
+        info ?? {
+          line,
+          text: uri ? "" : decodeFileName(text).replace(/^\d+\s*[-.]?\s+/, ""),
+        };
+      info = null;
+
+      entries.push({
+        line: current.line,
+        ...splitArtistTitle(current.text),
+        durationMs: current.durationMs,
+        uri,
+      });
+    });
+
+    return entries;
+  }
+}
+
+// Create and export default instance
+const playlistImporter = new PlaylistImporter();
+export default playlistImporter;
@@ -0,0 +1,65 @@
+// File: src/utils/playlistListing.ts
+
+import {
+  SpotifyPlaylist,
+  SpotifyPlaylistFull,
+  SpotifyPlaylistsResponse,
+} from "../types/types";
+
+/**
+ * Reduce a full playlist to the shape used in playlist listings
+ */
+export function toPlaylistSummary(
+  playlist: SpotifyPlaylistFull
+): SpotifyPlaylist {
+  const { followers, tracks, ...summary } = playlist;
+  return { ...summary, tracks: { href: tracks.href, total: tracks.total } };
+}
+
+/**
+ * Range of Spotify's own playlists needed for a listing page. Liked Songs
+ * takes position 0, shifting Spotify's playlists by one.
+ */
+export function getSpotifyPageRange(
+  offset: number,
+  limit: number
+): { offset: number; limit: number } {
+  return {
+    offset: Math.max(offset - 1, 0),
+    limit: offset === 0 ? Math.max(limit - 1, 1) : limit,
+  };
+}
+
+/**
+ * Build a listing page with Liked Songs leading Spotify's playlists
+ * @param page Spotify's playlists for the range from getSpotifyPageRange
+ * @param likedSongs Liked Songs summary; only used on the first page
+ */
+export function withLikedSongs(
+  page: SpotifyPlaylistsResponse,
+  offset: number,
+  limit: number,
+  likedSongs?: SpotifyPlaylist
+): SpotifyPlaylistsResponse {
+  const items =
+    offset === 0 && likedSongs
+      ? [likedSongs, ...page.items].slice(0, limit)
+      : page.items;
+  const total = page.total + 1;
+
+  return {
+    ...page,
+    items,
+    total,
+    offset,
+    limit,
+    next:
+      offset + items.length < total
+        ? `/api/playlists?offset=${offset + items.length}&limit=${limit}`
+        : null,
+    previous:
+      offset > 0
+        ? `/api/playlists?offset=${Math.max(offset - limit, 0)}&limit=${limit}`
+        : null,
+  };
+}
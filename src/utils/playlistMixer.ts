@@ -0,0 +1,357 @@
+// File: src/utils/playlistMixer.ts
+
+import spotifyClient from "./spotifyClient";
+import playlistReorder from "./playlistReorder";
+import { isTrackItem } from "./spotifyGuards";
+import { round } from "./utilHelpers";
+import {
+  HarmonicMixPlan,
+  HarmonicTransition,
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  ProgressCallback,
+  SpotifyAudioFeatures,
+} from "../types/types";
+
+// Weight of key compatibility against tempo in a transition's score
+const KEY_WEIGHT = 0.7;
+const TEMPO_WEIGHT = 0.3;
+
+// Relative tempo difference at which a transition's tempo score drops to 0
+const MAX_TEMPO_JUMP = 0.1;
+
+// Number of start tracks tried by the nearest neighbour search
+const START_CANDIDATES = 8;
+
+// Upper bound on 2-opt improvement passes over the whole path
+const MAX_IMPROVEMENT_PASSES = 20;
+
+// 2-opt stops improving after this long; long playlists keep a good but
+// not fully improved order
+const IMPROVEMENT_BUDGET_MS = 5000;
+
+// The path search gives the event loop a turn this often
+const YIELD_INTERVAL_MS = 50;
+
+/**
+ * Position on the Camelot wheel: number 1-12, minor (A) or major (B)
+ */
+interface CamelotKey {
+  number: number;
+  major: boolean;
+}
+
+interface MixEntry {
+  position: number;
+  key: CamelotKey;
+  tempo: number;
+}
+
+/**
+ * Convert a Spotify pitch class and mode to the Camelot wheel, where
+ * C major is 8B and A minor is 8A. Returns null when no key was detected.
+ */
+export function toCamelot(key: number, mode: number): CamelotKey | null {
+  if (!Number.isInteger(key) || key < 0 || key > 11) return null;
+  const major = mode === 1;
+  // Steps of a fifth around the wheel; a minor key shares the number of
+  // its relative major, three semitones up
+  const number = (((major ? key : key + 3) * 7 + 7) % 12) + 1;
+  return { number, major };
+}
+
+/**
+ * Create a function that yields to the event loop once the current slice
+ * of synchronous work has run for YIELD_INTERVAL_MS
+ */
+export function createYielder(): () => Promise<void> {
+  let sliceStart = Date.now();
+  return async () => {
+    if (Date.now() - sliceStart < YIELD_INTERVAL_MS) return;
+    await new Promise((resolve) => setImmediate(resolve));
+    sliceStart = Date.now();
+  };
+}
+
+function formatCamelot(key: CamelotKey): string {
+  return `${key.number}${key.major ? "B" : "A"}`;
+}
+
+/**
+ * Score how well two keys mix:
+ * same key 1, adjacent number or relative major/minor 0.9,
+ * diagonal move 0.6, two steps on the same ring 0.5, anything else 0
+ */
+export function keyCompatibility(a: CamelotKey, b: CamelotKey): number {
+  const difference = Math.abs(a.number - b.number);
+  const steps = Math.min(difference, 12 - difference);
+
+  if (a.major === b.major) {
+    if (steps === 0) return 1;
+    if (steps === 1) return 0.9;
+    if (steps === 2) return 0.5;
+    return 0;
+  }
+
+  if (steps === 0) return 0.9;
+  if (steps === 1) return 0.6;
+  return 0;
+}
+
+function relativeDifference(a: number, b: number): number {
+  return Math.abs(a - b) / Math.max(a, b);
+}
+
+/**
+ * Score how close two tempos are, treating half and double time as equal.
+ * The score is symmetric in `a` and `b`.
+ */
+export function tempoCompatibility(a: number, b: number): number {
+  const jump = Math.min(
+    relativeDifference(a, b),
+    relativeDifference(a * 2, b),
+    relativeDifference(a, b * 2)
+  );
+  return Math.max(0, 1 - jump / MAX_TEMPO_JUMP);
+}
+
+/**
+ * PlaylistMixer sequences a playlist for DJ-style mixing, keeping keys
+ * compatible on the Camelot wheel and tempo changes small
+ */
+export class PlaylistMixer {
+  /**
+   * Compute a harmonic order without writing it
+   */
+  async preview(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<HarmonicMixPlan> {
+    const { snapshotId, items, target, analyzed } = await this.computeOrder(
+      playlistId,
+      userId
+    );
+    const plan = playlistReorder.buildPlan(
+      playlistId,
+      snapshotId,
+      items,
+      target
+    );
+
+    const order = plan.order.map((entry) => {
+      const mix = analyzed.get(entry.position);
+      return {
+        ...entry,
+        camelot: mix ? formatCamelot(mix.key) : null,
+        tempo: mix ? round(mix.tempo) : null,
+      };
+    });
+
+    const transitions: HarmonicTransition[] = [];
+    for (let i = 1; i < target.length; i++) {
+      const from = analyzed.get(target[i - 1]);
+      const to = analyzed.get(target[i]);
+      if (!from || !to) continue;
+
+      const keyScore = keyCompatibility(from.key, to.key);
+      const tempoScore = tempoCompatibility(from.tempo, to.tempo);
+      transitions.push({
+        from: i - 1,
+        to: i,
+        keyScore,
+        tempoScore: round(tempoScore),
+        score: round(KEY_WEIGHT * keyScore + TEMPO_WEIGHT * tempoScore),
+      });
+    }
+
+    return {
+      ...plan,
+      order,
+      transitions,
+      averageScore:
+        transitions.length > 0
+          ? round(
+              transitions.reduce((sum, t) => sum + t.score, 0) /
+                transitions.length
+            )
+          : 0,
+      clashes: transitions.filter((t) => t.keyScore === 0).length,
+      unanalyzed: items.length - analyzed.size,
+    };
+  }
+
+  /**
+   * Sequence a playlist harmonically and apply the new order
+   */
+  async apply(
+    playlistId: string,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { moves: number }> {
+    const { snapshotId, target } = await this.computeOrder(playlistId, userId);
+    return playlistReorder.apply(
+      playlistId,
+      snapshotId,
+      target,
+      userId,
+      onProgress
+    );
+  }
+
+  private async computeOrder(
+    playlistId: string,
+    userId: string
+  ): Promise<{
+    snapshotId: string;
+    items: PlaylistTrackItem[];
+    target: number[];
+    analyzed: Map<number, MixEntry>;
+  }> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+    const features = await spotifyClient.getAudioFeatures(
+      items
+        .filter(isTrackItem)
+        .filter((item) => !item.is_local)
+        .map((item) => item.track.id),
+      userId
+    );
+
+    const analyzed = this.analyze(items, features);
+    const path = await this.findPath(Array.from(analyzed.values()));
+    const rest = items
+      .map((_, position) => position)
+      .filter((position) => !analyzed.has(position));
+
+    return {
+      snapshotId: playlist.snapshot_id,
+      items,
+      target: [...path.map((entry) => entry.position), ...rest],
+      analyzed,
+    };
+  }
+
+  /**
+   * Entries with a detected key and tempo, by playlist position
+   */
+  private analyze(
+    items: PlaylistTrackItem[],
+    features: Map<string, SpotifyAudioFeatures>
+  ): Map<number, MixEntry> {
+    const entries = new Map<number, MixEntry>();
+    items.forEach((item, position) => {
+      if (!isTrackItem(item) || item.is_local) return;
+      const feature = features.get(item.track.id);
+      const key = feature ? toCamelot(feature.key, feature.mode) : null;
+      if (key && feature!.tempo > 0) {
+        entries.set(position, { position, key, tempo: feature!.tempo });
+      }
+    });
+    return entries;
+  }
+
+  private cost(a: MixEntry, b: MixEntry): number {
+    return (
+      KEY_WEIGHT * (1 - keyCompatibility(a.key, b.key)) +
+      TEMPO_WEIGHT * (1 - tempoCompatibility(a.tempo, b.tempo))
+    );
+  }
+
+  /**
+   * Find a cheap path through all entries: nearest neighbour walks from a
+   * few starts spread over the tempo range, then 2-opt segment reversals
+   * until no reversal helps or the time budget is spent. Costs are
+   * symmetric, so reversing a segment only changes the two transitions at
+   * its ends. The search is quadratic, so it yields regularly to keep the
+   * server responsive on long playlists.
+   */
+  private async findPath(entries: MixEntry[]): Promise<MixEntry[]> {
+    if (entries.length < 3) return entries;
+
+    const yieldIfBusy = createYielder();
+
+    const byTempo = [...entries].sort((a, b) => a.tempo - b.tempo);
+    const starts = Math.min(START_CANDIDATES, entries.length);
+    let best: MixEntry[] = [];
+    let bestCost = Infinity;
+
+    for (let s = 0; s < starts; s++) {
+      const start =
+        byTempo[Math.floor((s * (byTempo.length - 1)) / (starts - 1 || 1))];
+      const path = await this.nearestNeighbour(entries, start, yieldIfBusy);
+      const cost = this.pathCost(path);
+      if (cost < bestCost) {
+        best = path;
+        bestCost = cost;
+      }
+    }
+
+    const deadline = Date.now() + IMPROVEMENT_BUDGET_MS;
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+      for (let i = 0; i < best.length - 1; i++) {
+        await yieldIfBusy();
+        if (Date.now() > deadline) return best;
+        for (let j = i + 1; j < best.length; j++) {
+          const before =
+            (i > 0 ? this.cost(best[i - 1], best[i]) : 0) +
+            (j < best.length - 1 ? this.cost(best[j], best[j + 1]) : 0);
+          const after =
+            (i > 0 ? this.cost(best[i - 1], best[j]) : 0) +
+            (j < best.length - 1 ? this.cost(best[i], best[j + 1]) : 0);
+          if (after < before - 1e-9) {
+            for (let a = i, b = j; a < b; a++, b--) {
+              [best[a], best[b]] = [best[b], best[a]];
+            }
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    return best;
+  }
+
+  private async nearestNeighbour(
+    entries: MixEntry[],
+    start: MixEntry,
+    yieldIfBusy: () => Promise<void>
+  ): Promise<MixEntry[]> {
+    const remaining = new Set(entries);
+    remaining.delete(start);
+    const path = [start];
+
+    while (remaining.size > 0) {
+      await yieldIfBusy();
+      const current = path[path.length - 1];
+      let next: MixEntry | null = null;
+      let nextCost = Infinity;
+      remaining.forEach((entry) => {
+        const cost = this.cost(current, entry);
+        if (cost < nextCost) {
+          next = entry;
+          nextCost = cost;
+        }
+      });
+      remaining.delete(next!);
+      path.push(next!);
+    }
+
+    return path;
+  }
+
+  private pathCost(path: MixEntry[]): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += this.cost(path[i - 1], path[i]);
+    }
+    return total;
+  }
+}
+
+// Create and export default instance
+const playlistMixer = new PlaylistMixer();
+export default playlistMixer;
@@ -0,0 +1,159 @@
+// File: src/utils/playlistReorder.ts
+
+import spotifyClient from "./spotifyClient";
+import {
+  OrderedEntry,
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  ProgressCallback,
+  ReorderPlan,
+} from "../types/types";
+
+/**
+ * A single move of one playlist entry, in Spotify's reorder semantics
+ */
+interface Move {
+  rangeStart: number;
+  insertBefore: number;
+}
+
+/**
+ * PlaylistReorder turns a desired playlist order into the fewest
+ * single-track reorder calls and applies them to Spotify
+ */
+export class PlaylistReorder {
+  /**
+   * Describe a proposed order without writing it
+   * @param target Original positions of the entries, in their new order
+   */
+  buildPlan(
+    playlistId: string,
+    snapshotId: string,
+    items: PlaylistTrackItem[],
+    target: number[]
+  ): ReorderPlan {
+    const order: OrderedEntry[] = target.map((position) => {
+      const track = items[position]?.track ?? null;
+      return {
+        position,
+        uri: track?.uri ?? null,
+        name: track?.name ?? null,
+        artists:
+          track?.type === "track"
+            ? track.artists.map((artist) => artist.name)
+            : [],
+      };
+    });
+
+    return {
+      playlistId,
+      snapshotId,
+      order,
+      moves: this.planMoves(target).length,
+    };
+  }
+
+  /**
+   * Compute the moves that turn the current order into the target order.
+   * Entries on a longest increasing subsequence stay put; every other entry
+   * is moved once, directly behind its predecessor in the target order.
+   * @param target Original positions of the entries, in their new order
+   */
+  planMoves(target: number[]): Move[] {
+    const rank = new Array<number>(target.length);
+    target.forEach((position, index) => {
+      rank[position] = index;
+    });
+
+    const stays = this.longestIncreasingSubsequence(rank);
+    const current = target.map((_, position) => position);
+    const moves: Move[] = [];
+
+    target.forEach((position, index) => {
+      if (stays.has(position)) return;
+
+      const from = current.indexOf(position);
+      const insertBefore =
+        index === 0 ? 0 : current.indexOf(target[index - 1]) + 1;
+      if (from === insertBefore) return;
+
+      moves.push({ rangeStart: from, insertBefore });
+
+      // Mirror the move locally so later positions stay accurate
+      current.splice(from, 1);
+      current.splice(
+        from < insertBefore ? insertBefore - 1 : insertBefore,
+        0,
+        position
+      );
+    });
+
+    return moves;
+  }
+
+  /**
+   * Write a new order to Spotify, chaining snapshot IDs between calls
+   * @param target Original positions of the entries, in their new order
+   */
+  async apply(
+    playlistId: string,
+    snapshotId: string,
+    target: number[],
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { moves: number }> {
+    const moves = this.planMoves(target);
+    let snapshot = snapshotId;
+
+    onProgress?.(0, moves.length);
+    for (let i = 0; i < moves.length; i++) {
+      const result = await spotifyClient.reorderPlaylistTracks(
+        playlistId,
+        moves[i].rangeStart,
+        moves[i].insertBefore,
+        1,
+        snapshot,
+        userId
+      );
+      snapshot = result.snapshot_id;
+      onProgress?.(i + 1, moves.length);
+    }
+
+    return { snapshot_id: snapshot, moves: moves.length };
+  }
+
+  /**
+   * Return the indices (here: original positions) on a longest strictly
+   * increasing subsequence of `values`
+   */
+  longestIncreasingSubsequence(values: number[]): Set<number> {
+    // tails[k] = index of the smallest tail of an increasing run of length k+1
+    const tails: number[] = [];
+    const previous = new Array<number>(values.length).fill(-1);
+
+    values.forEach((value, index) => {
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[tails[mid]] < value) low = mid + 1;
+        else high = mid;
+      }
+
+      if (low > 0) previous[index] = tails[low - 1];
+      tails[low] = index;
+    });
+
+    const result = new Set<number>();
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    while (index !== -1) {
+      result.add(index);
+      index = previous[index];
+    }
+    return result;
+  }
+}
+
+// Create and export default instance
+const playlistReorder = new PlaylistReorder();
+export default playlistReorder;
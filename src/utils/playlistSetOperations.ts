@@ -0,0 +1,189 @@
+// File: src/utils/playlistSetOperations.ts
+
+import spotifyClient from "./spotifyClient";
+import {
+  PlaylistItemContent,
+  PlaylistTrackItem,
+  ProgressCallback,
+  SetOperation,
+  SetOperationRequest,
+  SetOperationResult,
+  TrackMatchKey,
+} from "../types/types";
+
+// Labels used to name new playlists
+const OPERATION_LABELS: Record<SetOperation, string> = {
+  union: "Union",
+  intersection: "Intersection",
+  difference: "Difference",
+  symmetric_difference: "Symmetric difference",
+};
+
+export const SET_OPERATIONS = Object.keys(OPERATION_LABELS) as SetOperation[];
+
+/**
+ * PlaylistSetOperations combines playlists (and Liked Songs) with set
+ * operations and writes the result to a new or existing playlist
+ */
+export class PlaylistSetOperations {
+  /**
+   * Compute the URIs resulting from a set operation without writing them
+   */
+  async preview(
+    request: SetOperationRequest,
+    userId: string = "default"
+  ): Promise<SetOperationResult> {
+    const tracks = await this.compute(request, userId);
+    return {
+      operation: request.operation,
+      uris: Array.from(tracks.values()).map((track) => track.uri),
+    };
+  }
+
+  /**
+   * Compute a set operation and write it to the target playlist
+   */
+  async apply(
+    request: SetOperationRequest,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<SetOperationResult> {
+    const { sources, operation, matchBy = "uri" } = request;
+    const tracks = await this.compute(request, userId, onProgress);
+
+    let playlistId = request.targetPlaylistId;
+    let uris = Array.from(tracks.values()).map((track) => track.uri);
+
+    if (!playlistId) {
+      const playlist = await spotifyClient.createPlaylist(
+        {
+          name: `${OPERATION_LABELS[operation]} of ${sources.length} playlists`,
+          ...request.targetDetails,
+        },
+        userId
+      );
+      playlistId = playlist.id;
+    } else if (!request.replace) {
+      // Appending: skip tracks the target already contains
+      const existing = this.indexTracks(
+        await spotifyClient.getAllPlaylistTracks(playlistId, userId),
+        matchBy
+      );
+      uris = Array.from(tracks)
+        .filter(([key]) => !existing.has(key))
+        .map(([, track]) => track.uri);
+    }
+
+    const snapshot = request.replace
+      ? await spotifyClient.replacePlaylistTracks(playlistId, uris, userId)
+      : await spotifyClient.addTracksToPlaylist(
+          playlistId,
+          uris,
+          undefined,
+          userId
+        );
+
+    onProgress?.(sources.length + 1, sources.length + 1);
+
+    return {
+      operation,
+      uris,
+      playlistId,
+      snapshot_id: snapshot.snapshot_id,
+      added: uris.length,
+    };
+  }
+
+  /**
+   * Load every source and combine them, keyed by match key
+   */
+  private async compute(
+    request: SetOperationRequest,
+    userId: string,
+    onProgress?: ProgressCallback
+  ): Promise<Map<string, PlaylistItemContent>> {
+    const { sources, operation, matchBy = "uri" } = request;
+    const sourceTracks: Map<string, PlaylistItemContent>[] = [];
+
+    for (let i = 0; i < sources.length; i++) {
+      onProgress?.(i, sources.length + 1);
+      const items = await spotifyClient.getAllTracksFromSource(
+        sources[i],
+        userId
+      );
+      sourceTracks.push(this.indexTracks(items, matchBy));
+    }
+
+    return this.combine(operation, sourceTracks);
+  }
+
+  /**
+   * Index a source's tracks by match key, keeping the first occurrence.
+   * Local files cannot be added through the API and are skipped.
+   */
+  private indexTracks(
+    items: PlaylistTrackItem[],
+    matchBy: TrackMatchKey
+  ): Map<string, PlaylistItemContent> {
+    const tracks = new Map<string, PlaylistItemContent>();
+
+    items.forEach((item) => {
+      if (!item.track || item.is_local) return;
+      const key = this.matchKey(item.track, matchBy);
+      if (!tracks.has(key)) {
+        tracks.set(key, item.track);
+      }
+    });
+
+    return tracks;
+  }
+
+  private matchKey(track: PlaylistItemContent, matchBy: TrackMatchKey): string {
+    const isrc =
+      track.type === "track" ? track.external_ids?.isrc?.toUpperCase() : "";
+    return matchBy === "isrc" && isrc ? `isrc:${isrc}` : `uri:${track.uri}`;
+  }
+
+  /**
+   * Apply the set operation to indexed sources, keeping the order in
+   * which tracks first appear across the sources
+   */
+  private combine(
+    operation: SetOperation,
+    sources: Map<string, PlaylistItemContent>[]
+  ): Map<string, PlaylistItemContent> {
+    const counts = new Map<string, number>();
+    const firstSeen = new Map<string, PlaylistItemContent>();
+
+    sources.forEach((tracks) =>
+      tracks.forEach((track, key) => {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        if (!firstSeen.has(key)) firstSeen.set(key, track);
+      })
+    );
+
+    const [first, ...others] = sources;
+    const keep = (key: string): boolean => {
+      switch (operation) {
+        case "union":
+          return true;
+        case "intersection":
+          return counts.get(key) === sources.length;
+        case "difference":
+          return first.has(key) && !others.some((tracks) => tracks.has(key));
+        case "symmetric_difference":
+          return counts.get(key) === 1;
+      }
+    };
+
+    const result = new Map<string, PlaylistItemContent>();
+    firstSeen.forEach((track, key) => {
+      if (keep(key)) result.set(key, track);
+    });
+    return result;
+  }
+}
+
+// Create and export default instance
+const playlistSetOperations = new PlaylistSetOperations();
+export default playlistSetOperations;
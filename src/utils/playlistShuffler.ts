@@ -0,0 +1,327 @@
+// File: src/utils/playlistShuffler.ts
+
+import spotifyClient, { SpotifyApiError } from "./spotifyClient";
+import playlistReorder from "./playlistReorder";
+import { isTrackItem } from "./spotifyGuards";
+import {
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  ProgressCallback,
+  ShuffleOptions,
+  ShufflePlan,
+  SpotifyAudioFeatures,
+} from "../types/types";
+
+const DEFAULT_ARTIST_GAP = 2;
+
+// Penalty for sharing a decade with the previous track and the one before,
+// relative to an energy mismatch spanning the playlist's whole energy range
+const DECADE_PENALTIES = [0.1, 0.05];
+
+/**
+ * What the constraints need to know about a playlist entry
+ */
+interface ShuffleEntry {
+  position: number;
+  /** Artist IDs, or names for local files */
+  artists: string[];
+  album: string | null;
+  decade: number | null;
+  energy: number | null;
+}
+
+/**
+ * Seeded random number generator (mulberry32), so a seed always
+ * reproduces the same order
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * PlaylistShuffler writes a permanent shuffled order to a playlist that
+ * spreads out artists, albums and decades and can follow an energy arc
+ */
+export class PlaylistShuffler {
+  /**
+   * Compute a shuffled order without writing it
+   */
+  async preview(
+    playlistId: string,
+    options: ShuffleOptions = {},
+    userId: string = "default"
+  ): Promise<ShufflePlan> {
+    const { snapshotId, items, target, seed, violations } =
+      await this.computeOrder(playlistId, options, userId);
+
+    return {
+      ...playlistReorder.buildPlan(playlistId, snapshotId, items, target),
+      seed,
+      violations,
+    };
+  }
+
+  /**
+   * Shuffle a playlist and apply the new order with reorder calls
+   * @param snapshotId Snapshot of a preview; pass it with the preview's
+   * seed to apply exactly the previewed order
+   */
+  async apply(
+    playlistId: string,
+    options: ShuffleOptions = {},
+    snapshotId: string | undefined,
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { moves: number; seed: number }> {
+    const order = await this.computeOrder(playlistId, options, userId);
+
+    if (snapshotId && order.snapshotId !== snapshotId) {
+      throw new SpotifyApiError(
+        "Playlist changed since the shuffle preview; preview again",
+        409
+      );
+    }
+
+    const result = await playlistReorder.apply(
+      playlistId,
+      order.snapshotId,
+      order.target,
+      userId,
+      onProgress
+    );
+    console.log(
+      `Shuffled playlist ${playlistId} with seed ${order.seed} (${result.moves} moves)`
+    );
+    return { ...result, seed: order.seed };
+  }
+
+  private async computeOrder(
+    playlistId: string,
+    options: ShuffleOptions,
+    userId: string
+  ): Promise<{
+    snapshotId: string;
+    items: PlaylistTrackItem[];
+    target: number[];
+    seed: number;
+    violations: ShufflePlan["violations"];
+  }> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+
+    let features = new Map<string, SpotifyAudioFeatures>();
+    if (options.energyArc) {
+      const trackIds = items
+        .filter(isTrackItem)
+        .filter((item) => !item.is_local)
+        .map((item) => item.track.id);
+      features = await spotifyClient.getAudioFeatures(trackIds, userId);
+    }
+
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const entries = items.map((item, position) =>
+      this.describe(item, position, features)
+    );
+    const target = this.arrange(entries, options, createRandom(seed));
+
+    return {
+      snapshotId: playlist.snapshot_id,
+      items,
+      target,
+      seed,
+      violations: this.countViolations(
+        target.map((position) => entries[position]),
+        options
+      ),
+    };
+  }
+
+  private describe(
+    item: PlaylistTrackItem,
+    position: number,
+    features: Map<string, SpotifyAudioFeatures>
+  ): ShuffleEntry {
+    if (!isTrackItem(item)) {
+      const show = item.track?.type === "episode" ? item.track.show : null;
+      return {
+        position,
+        artists: show ? [show.id] : [],
+        album: null,
+        decade: null,
+        energy: null,
+      };
+    }
+
+    const { track } = item;
+    const year = parseInt(track.album.release_date, 10);
+    return {
+      position,
+      artists: track.artists.map((artist) => artist.id ?? artist.name),
+      album: track.album.id ?? track.album.name,
+      decade: year > 0 ? Math.floor(year / 10) * 10 : null,
+      energy: item.is_local ? null : features.get(track.id)?.energy ?? null,
+    };
+  }
+
+  /**
+   * Fill the playlist slot by slot from a random order, taking for each
+   * slot the entry that breaks the fewest constraints. Artists with so many
+   * tracks left that they would otherwise run out of room go first.
+   * @returns Original positions of the entries, in their new order
+   */
+  private arrange(
+    entries: ShuffleEntry[],
+    options: ShuffleOptions,
+    random: () => number
+  ): number[] {
+    const gap = options.artistGap ?? DEFAULT_ARTIST_GAP;
+    const separateAlbums = options.separateAlbums ?? true;
+    const spreadDecades = options.spreadDecades ?? true;
+
+    const remaining = [...entries];
+    for (let i = remaining.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [remaining[i], remaining[j]] = [remaining[j], remaining[i]];
+    }
+
+    // Energy each slot should have along the arc. Entries without audio
+    // features borrow a random energy of the playlist to spread over it.
+    const energies = new Map<ShuffleEntry, number>();
+    let targets: number[] = [];
+    let range = 1;
+    if (options.energyArc) {
+      const known = entries
+        .map((entry) => entry.energy)
+        .filter((energy): energy is number => energy !== null);
+      if (known.length > 0) {
+        remaining.forEach((entry) =>
+          energies.set(
+            entry,
+            entry.energy ?? known[Math.floor(random() * known.length)]
+          )
+        );
+        targets = Array.from(energies.values()).sort((a, b) =>
+          options.energyArc === "build_up" ? a - b : b - a
+        );
+        range = Math.max(...known) - Math.min(...known) || 1;
+      }
+    }
+
+    const artistsLeft = new Map<string, number>();
+    remaining.forEach((entry) =>
+      entry.artists.forEach((artist) =>
+        artistsLeft.set(artist, (artistsLeft.get(artist) ?? 0) + 1)
+      )
+    );
+    const lastSlot = new Map<string, number>();
+    const placed: ShuffleEntry[] = [];
+
+    for (let slot = 0; slot < entries.length; slot++) {
+      const slotsLeft = entries.length - slot;
+      const previous = placed[slot - 1];
+      let best = 0;
+      let bestScore = Infinity;
+
+      for (let i = 0; i < remaining.length; i++) {
+        const entry = remaining[i];
+        let violations = 0;
+        let urgent = false;
+
+        if (
+          entry.artists.some((artist) => {
+            const last = lastSlot.get(artist);
+            return last !== undefined && slot - last - 1 < gap;
+          })
+        ) {
+          violations++;
+        }
+        if (separateAlbums && entry.album && entry.album === previous?.album) {
+          violations++;
+        }
+        if (
+          entry.artists.some(
+            (artist) =>
+              (artistsLeft.get(artist)! - 1) * (gap + 1) + 1 >= slotsLeft
+          )
+        ) {
+          urgent = true;
+        }
+
+        let penalty = 0;
+        if (spreadDecades && entry.decade !== null) {
+          DECADE_PENALTIES.forEach((value, back) => {
+            if (placed[slot - 1 - back]?.decade === entry.decade) {
+              penalty += value;
+            }
+          });
+        }
+        if (targets.length > 0) {
+          penalty += Math.abs(energies.get(entry)! - targets[slot]) / range;
+        }
+
+        // Violations outweigh urgency, which outweighs the soft penalties
+        const score = violations * 1000 + (urgent ? 0 : 100) + penalty;
+        if (score < bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+
+      const [entry] = remaining.splice(best, 1);
+      entry.artists.forEach((artist) => {
+        artistsLeft.set(artist, artistsLeft.get(artist)! - 1);
+        lastSlot.set(artist, slot);
+      });
+      placed.push(entry);
+    }
+
+    return placed.map((entry) => entry.position);
+  }
+
+  /**
+   * Count the artist and album constraints an order still breaks
+   */
+  private countViolations(
+    ordered: ShuffleEntry[],
+    options: ShuffleOptions
+  ): ShufflePlan["violations"] {
+    const gap = options.artistGap ?? DEFAULT_ARTIST_GAP;
+    const separateAlbums = options.separateAlbums ?? true;
+    const lastSlot = new Map<string, number>();
+    const violations = { artist: 0, album: 0 };
+
+    ordered.forEach((entry, slot) => {
+      if (
+        entry.artists.some((artist) => {
+          const last = lastSlot.get(artist);
+          return last !== undefined && slot - last - 1 < gap;
+        })
+      ) {
+        violations.artist++;
+      }
+      if (
+        separateAlbums &&
+        entry.album &&
+        entry.album === ordered[slot - 1]?.album
+      ) {
+        violations.album++;
+      }
+      entry.artists.forEach((artist) => lastSlot.set(artist, slot));
+    });
+
+    return violations;
+  }
+}
+
+// Create and export default instance
+const playlistShuffler = new PlaylistShuffler();
+export default playlistShuffler;
@@ -0,0 +1,166 @@
+// File: src/utils/playlistSorter.ts
+
+import spotifyClient from "./spotifyClient";
+import playlistReorder from "./playlistReorder";
+import { isTrackItem } from "./spotifyGuards";
+import {
+  PlaylistSnapshotResponse,
+  PlaylistTrackItem,
+  ProgressCallback,
+  ReorderPlan,
+  SortField,
+  SortKey,
+  SpotifyAudioFeatures,
+} from "../types/types";
+
+// Fields that need an audio features lookup
+const AUDIO_FEATURE_FIELDS: SortField[] = ["tempo", "energy", "danceability"];
+
+export const SORT_FIELDS: SortField[] = [
+  ...AUDIO_FEATURE_FIELDS,
+  "release_date",
+  "popularity",
+  "added_at",
+  "artist",
+  "album",
+];
+
+type SortValue = string | number | undefined;
+
+/**
+ * PlaylistSorter orders a playlist by audio features and track metadata
+ * and writes the new order back to Spotify
+ */
+export class PlaylistSorter {
+  /**
+   * Compute the sorted order of a playlist without writing it
+   */
+  async preview(
+    playlistId: string,
+    keys: SortKey[],
+    userId: string = "default"
+  ): Promise<ReorderPlan> {
+    const { snapshotId, items, target } = await this.computeOrder(
+      playlistId,
+      keys,
+      userId
+    );
+    return playlistReorder.buildPlan(playlistId, snapshotId, items, target);
+  }
+
+  /**
+   * Sort a playlist and apply the new order with the fewest reorder calls
+   */
+  async apply(
+    playlistId: string,
+    keys: SortKey[],
+    userId: string = "default",
+    onProgress?: ProgressCallback
+  ): Promise<PlaylistSnapshotResponse & { moves: number }> {
+    const { snapshotId, target } = await this.computeOrder(
+      playlistId,
+      keys,
+      userId
+    );
+    return playlistReorder.apply(
+      playlistId,
+      snapshotId,
+      target,
+      userId,
+      onProgress
+    );
+  }
+
+  /**
+   * Load a playlist and sort its positions by the given keys.
+   * Entries missing a value sort last in either direction; ties keep
+   * their current relative order.
+   */
+  private async computeOrder(
+    playlistId: string,
+    keys: SortKey[],
+    userId: string
+  ): Promise<{
+    snapshotId: string;
+    items: PlaylistTrackItem[];
+    target: number[];
+  }> {
+    const { playlist, items } = await spotifyClient.getPlaylistWithTracks(
+      playlistId,
+      userId
+    );
+
+    let features = new Map<string, SpotifyAudioFeatures>();
+    if (keys.some((key) => AUDIO_FEATURE_FIELDS.includes(key.field))) {
+      const trackIds = items
+        .filter(isTrackItem)
+        .filter((item) => !item.is_local)
+        .map((item) => item.track.id);
+      features = await spotifyClient.getAudioFeatures(trackIds, userId);
+    }
+
+    const values = items.map((item) =>
+      keys.map((key) => this.getValue(item, key.field, features))
+    );
+
+    const target = items
+      .map((_, position) => position)
+      .sort((a, b) => {
+        for (let k = 0; k < keys.length; k++) {
+          const result = this.compare(
+            values[a][k],
+            values[b][k],
+            keys[k].direction === "desc" ? -1 : 1
+          );
+          if (result !== 0) return result;
+        }
+        return a - b;
+      });
+
+    return { snapshotId: playlist.snapshot_id, items, target };
+  }
+
+  /**
+   * Extract the value of a sort field from a playlist entry
+   */
+  private getValue(
+    item: PlaylistTrackItem,
+    field: SortField,
+    features: Map<string, SpotifyAudioFeatures>
+  ): SortValue {
+    if (field === "added_at") return item.added_at ?? undefined;
+    if (!isTrackItem(item)) return undefined;
+
+    const { track } = item;
+    switch (field) {
+      case "tempo":
+      case "energy":
+      case "danceability":
+        return features.get(track.id)?.[field];
+      case "release_date":
+        return track.album.release_date || undefined;
+      case "popularity":
+        return track.popularity;
+      case "artist":
+        return track.artists[0]?.name;
+      case "album":
+        return track.album.name;
+    }
+  }
+
+  private compare(a: SortValue, b: SortValue, direction: 1 | -1): number {
+    if (a === undefined || b === undefined) {
+      return a === b ? 0 : a === undefined ? 1 : -1;
+    }
+
+    if (typeof a === "string" && typeof b === "string") {
+      return direction * a.localeCompare(b, undefined, { sensitivity: "base" });
+    }
+
+    return direction * ((a as number) - (b as number));
+  }
+}
+
+// Create and export default instance
+const playlistSorter = new PlaylistSorter();
+export default playlistSorter;
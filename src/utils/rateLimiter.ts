@@ -5,6 +5,8 @@ import * as dotenv from "dotenv";
 import UtilHelper from "./utilHelpers";
 dotenv.config();
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 /**
  * RateLimiter class for protecting Spotify API from excessive requests
  * Uses Redis for distributed rate limiting
@@ -25,9 +27,12 @@ export class RateLimiter {
     // Endpoint-specific limits
     "/me": { limit: 60, window: 60 }, // 60 requests per minute for user profile
     "/me/playlists": { limit: 30, window: 60 }, // 30 requests per minute for user playlists
+    "/me/player": { limit: 120, window: 60 }, // 120 requests per minute for playback control
     "/playlists": { limit: 30, window: 60 }, // 30 requests per minute for playlists
     "/tracks": { limit: 120, window: 60 }, // 120 requests per minute for tracks
     "/search": { limit: 30, window: 60 }, // 30 requests per minute for search
+    "/audio-features": { limit: 60, window: 60 }, // 60 batched requests per minute for audio features
+    "/artists": { limit: 60, window: 60 }, // 60 batched requests per minute for artists
   };
 
   /**
@@ -129,7 +134,7 @@ export class RateLimiter {
 
       // Remove old entries outside current window
       multi.zremrangebyscore(endpointKey, 0, windowStart);
-      multi.zremrangebyscore(globalKey, 0, windowStart);
+      multi.zremrangebyscore(globalKey, 0, now - this.rateLimits.global.window);
 
       // Count current requests in window
       multi.zcard(endpointKey);
@@ -193,6 +198,106 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Wait until a request to the endpoint fits within the rate limits, then
+   * record it. Resolves to false if no slot opens up before the deadline.
+   */
+  async waitForSlot(
+    endpoint: string,
+    userId: string = "default",
+    deadline: number = Date.now() + 60000
+  ): Promise<boolean> {
+    while (true) {
+      const waitMs = await this.getWaitTime(endpoint, userId);
+
+      if (waitMs <= 0) {
+        const rateCheck = await this.checkLimit(endpoint, userId);
+        if (rateCheck.allowed) return true;
+        // Another caller took the slot between the peek and the check
+        continue;
+      }
+
+      if (Date.now() + waitMs > deadline) {
+        return false;
+      }
+
+      console.log(`Rate limit reached for ${endpoint}, waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Calculate how long until a request to the endpoint would be allowed,
+   * without recording it
+   * @returns Milliseconds to wait, or 0 if a request is allowed right now
+   */
+  async getWaitTime(
+    endpoint: string,
+    userId: string = "default"
+  ): Promise<number> {
+    if (!this.redis) return 0;
+
+    try {
+      const windows = [
+        {
+          key: `${this.ratePrefix}${userId}:${endpoint}`,
+          ...this.getRateConfig(endpoint),
+        },
+        {
+          key: `${this.ratePrefix}${userId}:global`,
+          ...this.rateLimits.global,
+        },
+      ];
+
+      const now = Math.floor(Date.now() / 1000);
+      let waitMs = 0;
+
+      for (const { key, limit, window } of windows) {
+        await this.redis.zremrangebyscore(key, 0, now - window);
+        const count = await this.redis.zcard(key);
+        if (count <= limit) continue;
+
+        // The entry that has to drop out of the window before we fit again
+        const [, score] = await this.redis.zrange(
+          key,
+          count - limit - 1,
+          count - limit - 1,
+          "WITHSCORES"
+        );
+        const freesAt = (Number(score) + window) * 1000;
+        waitMs = Math.max(waitMs, freesAt - Date.now());
+      }
+
+      return Math.max(0, waitMs);
+    } catch (error) {
+      console.error("Rate limit wait calculation error:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Share of the user's global hourly budget still unused, from 0 to 1,
+   * without recording a request
+   */
+  async getGlobalHeadroom(userId: string = "default"): Promise<number> {
+    if (!this.redis) return 1;
+
+    try {
+      const key = `${this.ratePrefix}${userId}:global`;
+      const { limit, window } = this.rateLimits.global;
+      await this.redis.zremrangebyscore(
+        key,
+        0,
+        Math.floor(Date.now() / 1000) - window
+      );
+      const count = await this.redis.zcard(key);
+      return Math.max(0, limit - count) / limit;
+    } catch (error) {
+      console.error("Rate limit headroom calculation error:", error);
+      return 1;
+    }
+  }
+
   /**
    * Close Redis connection when shutting down
    */
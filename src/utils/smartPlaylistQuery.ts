@@ -0,0 +1,426 @@
+// File: src/utils/smartPlaylistQuery.ts
+
+import { LIKED_SONGS_ID } from "./spotifyClient";
+
+/**
+ * Parser for the smart playlist rule language, e.g.
+ *
+ *   source in [liked, playlist:37i9dQZF1DXcBWIGoYBM5M] AND energy > 0.7
+ *   AND release_year >= 2015 AND NOT artist in ["Nickelback"]
+ *   ORDER BY added_at DESC LIMIT 200
+ *
+ * Keywords are case-insensitive. Strings containing spaces must be quoted.
+ */
+
+export type FieldType = "number" | "string" | "date" | "boolean";
+
+export interface FieldDefinition {
+  type: FieldType;
+  /** Field holds several values (e.g. all artists); comparisons match any */
+  multi?: boolean;
+  /** Extra data needed to evaluate the field */
+  needs?: "features" | "genres";
+}
+
+export const QUERY_FIELDS: Record<string, FieldDefinition> = {
+  source: { type: "string", multi: true },
+  name: { type: "string" },
+  artist: { type: "string", multi: true },
+  album: { type: "string" },
+  genre: { type: "string", multi: true, needs: "genres" },
+  added_at: { type: "date" },
+  release_date: { type: "date" },
+  release_year: { type: "number" },
+  popularity: { type: "number" },
+  duration_ms: { type: "number" },
+  explicit: { type: "boolean" },
+  tempo: { type: "number", needs: "features" },
+  energy: { type: "number", needs: "features" },
+  danceability: { type: "number", needs: "features" },
+  valence: { type: "number", needs: "features" },
+  acousticness: { type: "number", needs: "features" },
+  instrumentalness: { type: "number", needs: "features" },
+  speechiness: { type: "number", needs: "features" },
+  liveness: { type: "number", needs: "features" },
+  loudness: { type: "number", needs: "features" },
+};
+
+export type ComparisonOperator =
+  | "="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "in"
+  | "contains";
+
+export type QueryValue = string | number | boolean;
+
+export type QueryCondition =
+  | { kind: "and" | "or"; left: QueryCondition; right: QueryCondition }
+  | { kind: "not"; operand: QueryCondition }
+  | {
+      kind: "comparison";
+      field: string;
+      operator: ComparisonOperator;
+      value: QueryValue | QueryValue[];
+    };
+
+export interface QueryOrder {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+export interface SmartQuery {
+  condition: QueryCondition | null;
+  orderBy: QueryOrder[];
+  limit: number | null;
+  /** Playlist IDs (or LIKED_SONGS_ID) referenced by `source` conditions */
+  sources: string[];
+}
+
+/**
+ * Error raised for invalid smart playlist queries
+ */
+export class SmartQueryError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "SmartQueryError";
+    this.position = position;
+  }
+}
+
+type TokenType =
+  | "number"
+  | "string"
+  | "date"
+  | "word"
+  | "operator"
+  | "punctuation"
+  | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+  ["date", /^\d{4}-\d{2}-\d{2}/],
+  ["number", /^-?\d+(\.\d+)?/],
+  ["string", /^"(?:[^"\\]|\\.)*"|^'(?:[^'\\]|\\.)*'/],
+  ["operator", /^(!=|>=|<=|=|>|<)/],
+  ["punctuation", /^[()[\],]/],
+  ["word", /^[A-Za-z_][\w:.-]*/],
+];
+
+/**
+ * Normalize a source reference to a playlist ID or LIKED_SONGS_ID
+ */
+export function normalizeSource(value: string): string {
+  const source = value.trim();
+  if (source.toLowerCase() === LIKED_SONGS_ID) return LIKED_SONGS_ID;
+  return source.replace(/^(spotify:)?playlist:/, "");
+}
+
+/**
+ * Parse a smart playlist query
+ * @throws SmartQueryError if the query is invalid
+ */
+export function parseSmartQuery(query: string): SmartQuery {
+  return new Parser(tokenize(query)).parseQuery();
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const rest = query.slice(position);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const match = TOKEN_PATTERNS.map(
+      ([type, pattern]) => [type, rest.match(pattern)] as const
+    ).find(([, result]) => result);
+
+    if (!match) {
+      throw new SmartQueryError(`Unexpected character "${rest[0]}"`, position);
+    }
+
+    const [type, result] = match;
+    const text = result![0];
+    tokens.push({
+      type,
+      value:
+        type === "string" ? text.slice(1, -1).replace(/\\(.)/g, "$1") : text,
+      position,
+    });
+    position += text.length;
+  }
+
+  tokens.push({ type: "end", value: "", position });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; AND binds tighter than OR
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private sources = new Set<string>();
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseQuery(): SmartQuery {
+    const condition =
+      this.isKeyword("order") || this.isKeyword("limit") || this.isEnd()
+        ? null
+        : this.parseOr();
+
+    const orderBy: QueryOrder[] = [];
+    if (this.acceptKeyword("order")) {
+      this.expectKeyword("by");
+      do {
+        const field = this.parseField();
+        let direction: QueryOrder["direction"] = "asc";
+        if (this.acceptKeyword("desc")) {
+          direction = "desc";
+        } else {
+          this.acceptKeyword("asc");
+        }
+        orderBy.push({ field, direction });
+      } while (this.acceptPunctuation(","));
+    }
+
+    let limit: number | null = null;
+    if (this.acceptKeyword("limit")) {
+      const token = this.next();
+      limit = Number(token.value);
+      if (token.type !== "number" || !Number.isInteger(limit) || limit < 1) {
+        throw new SmartQueryError(
+          "LIMIT must be a positive integer",
+          token.position
+        );
+      }
+    }
+
+    if (!this.isEnd()) {
+      const token = this.peek();
+      throw new SmartQueryError(`Unexpected "${token.value}"`, token.position);
+    }
+
+    return { condition, orderBy, limit, sources: Array.from(this.sources) };
+  }
+
+  private parseOr(): QueryCondition {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or")) {
+      left = { kind: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryCondition {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and")) {
+      left = { kind: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryCondition {
+    if (this.acceptKeyword("not")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    if (this.acceptPunctuation("(")) {
+      const condition = this.parseOr();
+      this.expectPunctuation(")");
+      return condition;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryCondition {
+    const fieldToken = this.peek();
+    const field = this.parseField();
+    const definition = QUERY_FIELDS[field];
+
+    // "field NOT IN [...]" is sugar for "NOT field IN [...]"
+    if (this.acceptKeyword("not")) {
+      this.expectKeyword("in");
+      return {
+        kind: "not",
+        operand: this.finishComparison(field, "in", fieldToken),
+      };
+    }
+
+    let operator: ComparisonOperator;
+    const token = this.next();
+    if (token.type === "operator") {
+      operator = token.value as ComparisonOperator;
+    } else if (
+      token.type === "word" &&
+      ["in", "contains"].includes(token.value.toLowerCase())
+    ) {
+      operator = token.value.toLowerCase() as ComparisonOperator;
+    } else {
+      throw new SmartQueryError(
+        `Expected an operator after "${field}"`,
+        token.position
+      );
+    }
+
+    const ordered = [">", ">=", "<", "<="].includes(operator);
+    if (ordered && !["number", "date"].includes(definition.type)) {
+      throw new SmartQueryError(
+        `"${field}" cannot be compared with ${operator}`,
+        token.position
+      );
+    }
+    if (operator === "contains" && definition.type !== "string") {
+      throw new SmartQueryError(
+        `"${field}" does not support CONTAINS`,
+        token.position
+      );
+    }
+
+    return this.finishComparison(field, operator, fieldToken);
+  }
+
+  private finishComparison(
+    field: string,
+    operator: ComparisonOperator,
+    fieldToken: Token
+  ): QueryCondition {
+    const value =
+      operator === "in" ? this.parseList(field) : this.parseValue(field);
+
+    if (field === "source") {
+      if (operator !== "=" && operator !== "in") {
+        throw new SmartQueryError(
+          '"source" only supports = and IN',
+          fieldToken.position
+        );
+      }
+      const sources = (Array.isArray(value) ? value : [value]).map((source) =>
+        normalizeSource(String(source))
+      );
+      sources.forEach((source) => this.sources.add(source));
+      return { kind: "comparison", field, operator, value: sources };
+    }
+
+    return { kind: "comparison", field, operator, value };
+  }
+
+  private parseList(field: string): QueryValue[] {
+    this.expectPunctuation("[");
+    const values: QueryValue[] = [];
+    if (!this.acceptPunctuation("]")) {
+      do {
+        values.push(this.parseValue(field));
+      } while (this.acceptPunctuation(","));
+      this.expectPunctuation("]");
+    }
+    return values;
+  }
+
+  private parseValue(field: string): QueryValue {
+    const { type } = QUERY_FIELDS[field];
+    const token = this.next();
+
+    if (type === "number" && token.type === "number") {
+      return Number(token.value);
+    }
+    if (type === "date" && (token.type === "date" || token.type === "string")) {
+      return token.value;
+    }
+    if (type === "boolean" && token.type === "word") {
+      const word = token.value.toLowerCase();
+      if (word === "true" || word === "false") return word === "true";
+    }
+    if (
+      type === "string" &&
+      ["string", "word", "number"].includes(token.type)
+    ) {
+      return token.value;
+    }
+
+    throw new SmartQueryError(
+      `Expected a ${type} value for "${field}"`,
+      token.position
+    );
+  }
+
+  private parseField(): string {
+    const token = this.next();
+    const field = token.value.toLowerCase();
+    if (
+      token.type !== "word" ||
+      !Object.prototype.hasOwnProperty.call(QUERY_FIELDS, field)
+    ) {
+      throw new SmartQueryError(
+        `Unknown field "${token.value}"`,
+        token.position
+      );
+    }
+    return field;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private isEnd(): boolean {
+    return this.peek().type === "end";
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      const token = this.peek();
+      throw new SmartQueryError(
+        `Expected ${keyword.toUpperCase()}`,
+        token.position
+      );
+    }
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== "punctuation" || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw new SmartQueryError(`Expected "${value}"`, this.peek().position);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+// File: src/utils/smartPlaylistStore.ts
+
+import * as fs from "fs";
+import Redis from "ioredis";
+import * as dotenv from "dotenv";
+import { SmartPlaylistRule } from "../types/types";
+
+dotenv.config();
+
+/**
+ * SmartPlaylistStore persists smart playlist rules per user
+ * Uses Redis for primary storage with file-based fallback
+ */
+export class SmartPlaylistStore {
+  private redis: Redis | null = null;
+  private rulePrefix = "spotify_smart_playlists:";
+  private isProduction: boolean;
+
+  /**
+   * Create a new SmartPlaylistStore instance
+   */
+  constructor() {
+    this.isProduction = process.env.NODE_ENV === "production";
+
+    // Setup Redis if connection string is available
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      try {
+        console.log("Connecting to Redis...");
+
+        // Create a connection timeout
+        const connectionTimeout = setTimeout(() => {
+          console.error("Redis connection timeout after 5 seconds");
+          console.log("Falling back to file storage");
+          this.redis = null;
+        }, 5000); // 5 second timeout
+
+        this.redis = new Redis(redisUrl);
+
+        // Add event listeners for successful connection and errors
+        this.redis.on("connect", () => {
+          clearTimeout(connectionTimeout);
+          console.log("Successfully connected to Redis");
+        });
+
+        this.redis.on("error", (err) => {
+          console.error("Redis connection error:", err);
+          if (this.redis) {
+            this.redis
+              .quit()
+              .catch((e) =>
+                console.error("Error closing Redis connection:", e)
+              );
+            this.redis = null;
+          }
+        });
+      } catch (error) {
+        console.error("Failed to connect to Redis:", error);
+        console.warn("Falling back to file storage");
+        this.redis = null;
+      }
+    } else {
+      console.warn("REDIS_URL not found in environment, using file storage");
+    }
+  }
+
+  private get envSuffix(): string {
+    return this.isProduction ? "prod" : "dev";
+  }
+
+  /**
+   * Redis hash holding all rules of a user
+   */
+  private getRulesKey(userId: string): string {
+    return `${this.rulePrefix}${this.envSuffix}:${userId}`;
+  }
+
+  /**
+   * File holding the rules of all users when Redis is unavailable
+   */
+  private getRulesFile(): string {
+    return `.spotify-smart-playlists-${this.envSuffix}.json`;
+  }
+
+  private readFile(): Record<string, Record<string, SmartPlaylistRule>> {
+    const file = this.getRulesFile();
+    if (!fs.existsSync(file)) return {};
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  private writeFile(
+    data: Record<string, Record<string, SmartPlaylistRule>>
+  ): void {
+    fs.writeFileSync(
+      this.getRulesFile(),
+      JSON.stringify(data, null, 2),
+      "utf8"
+    );
+  }
+
+  /**
+   * List all rules of a user
+   */
+  async list(userId: string = "default"): Promise<SmartPlaylistRule[]> {
+    try {
+      if (this.redis) {
+        const data = await this.redis.hgetall(this.getRulesKey(userId));
+        return Object.values(data).map(
+          (rule) => JSON.parse(rule) as SmartPlaylistRule
+        );
+      }
+
+      return Object.values(this.readFile()[userId] ?? {});
+    } catch (error) {
+      console.error("Failed to list smart playlists:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a single rule of a user
+   */
+  async get(
+    ruleId: string,
+    userId: string = "default"
+  ): Promise<SmartPlaylistRule | null> {
+    try {
+      if (this.redis) {
+        const data = await this.redis.hget(this.getRulesKey(userId), ruleId);
+        return data ? (JSON.parse(data) as SmartPlaylistRule) : null;
+      }
+
+      return this.readFile()[userId]?.[ruleId] ?? null;
+    } catch (error) {
+      console.error("Failed to get smart playlist:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or replace a rule
+   */
+  async save(
+    rule: SmartPlaylistRule,
+    userId: string = "default"
+  ): Promise<void> {
+    try {
+      if (this.redis) {
+        await this.redis.hset(
+          this.getRulesKey(userId),
+          rule.id,
+          JSON.stringify(rule)
+        );
+      } else {
+        const data = this.readFile();
+        data[userId] = { ...data[userId], [rule.id]: rule };
+        this.writeFile(data);
+      }
+    } catch (error) {
+      console.error("Failed to save smart playlist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a rule
+   * @returns Whether the rule existed
+   */
+  async remove(ruleId: string, userId: string = "default"): Promise<boolean> {
+    try {
+      if (this.redis) {
+        const removed = await this.redis.hdel(this.getRulesKey(userId), ruleId);
+        return removed > 0;
+      }
+
+      const data = this.readFile();
+      if (!data[userId]?.[ruleId]) return false;
+      delete data[userId][ruleId];
+      this.writeFile(data);
+      return true;
+    } catch (error) {
+      console.error("Failed to remove smart playlist:", error);
+      return false;
+    }
+  }
+
+  /**
+   * List the users that have at least one rule
+   */
+  async listUsers(): Promise<string[]> {
+    try {
+      if (this.redis) {
+        const prefix = `${this.rulePrefix}${this.envSuffix}:`;
+        const keys = await this.redis.keys(`${prefix}*`);
+        return keys.map((key) => key.slice(prefix.length));
+      }
+
+      return Object.keys(this.readFile());
+    } catch (error) {
+      console.error("Failed to list smart playlist users:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Close Redis connection when shutting down
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      console.log("Redis smart playlist store connection closed");
+    }
+  }
+
+  getRedisStatus = (): boolean => {
+    return this.redis !== null;
+  };
+}
+
+// Create and export default instance
+const smartPlaylistStore = new SmartPlaylistStore();
+export default smartPlaylistStore;
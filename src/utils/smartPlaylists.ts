@@ -0,0 +1,558 @@
+// File: src/utils/smartPlaylists.ts
+
+import { v4 as uuidv4 } from "uuid";
+import spotifyClient from "./spotifyClient";
+import smartPlaylistStore from "./smartPlaylistStore";
+import { isTrackItem } from "./spotifyGuards";
+import {
+  parseSmartQuery,
+  QUERY_FIELDS,
+  QueryCondition,
+  QueryValue,
+  SmartQuery,
+  SmartQueryError,
+} from "./smartPlaylistQuery";
+import {
+  OrderedEntry,
+  SmartPlaylistRule,
+  SpotifyAudioFeatures,
+  SpotifyTrack,
+} from "../types/types";
+
+/**
+ * A track considered by a smart playlist, with the data its rule needs
+ */
+interface Candidate {
+  track: SpotifyTrack;
+  addedAt: string | null;
+  sources: Set<string>;
+  features?: SpotifyAudioFeatures;
+  genres: string[];
+}
+
+type FieldValue = string | number | boolean | undefined;
+
+// How often the scheduler looks for rules that are due
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Failing rules wait twice as long after each failure, up to this
+const MAX_RETRY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Time (epoch ms) a scheduled rule is next due to sync
+ */
+function getNextSyncTime(rule: SmartPlaylistRule): number {
+  const intervalMs = (rule.scheduleMinutes ?? 0) * 60 * 1000;
+  const failures = rule.syncFailures ?? 0;
+  const waitMs =
+    failures > 0
+      ? Math.max(
+          intervalMs,
+          Math.min(
+            intervalMs * 2 ** Math.min(failures, 20),
+            MAX_RETRY_INTERVAL_MS
+          )
+        )
+      : intervalMs;
+
+  const lastRun = rule.lastSyncAttemptAt ?? rule.lastSyncedAt;
+  return (lastRun ? new Date(lastRun).getTime() : 0) + waitMs;
+}
+
+/**
+ * SmartPlaylists evaluates stored rules against the user's tracks and
+ * syncs the matches into real Spotify playlists
+ */
+export class SmartPlaylists {
+  private schedulerTimer: NodeJS.Timeout | null = null;
+  private schedulerRunning = false;
+
+  // Syncs in progress per rule, so manual and scheduled syncs share one
+  private syncing = new Map<string, Promise<SmartPlaylistRule>>();
+
+  /**
+   * Validate a query and store a new rule
+   * @throws SmartQueryError if the query is invalid
+   */
+  async create(
+    input: Pick<
+      SmartPlaylistRule,
+      "name" | "query" | "targetPlaylistId" | "scheduleMinutes"
+    >,
+    userId: string = "default"
+  ): Promise<SmartPlaylistRule> {
+    this.parse(input.query);
+
+    const now = new Date().toISOString();
+    const rule: SmartPlaylistRule = {
+      id: uuidv4(),
+      name: input.name,
+      query: input.query,
+      targetPlaylistId: input.targetPlaylistId,
+      scheduleMinutes: input.scheduleMinutes,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await smartPlaylistStore.save(rule, userId);
+    return rule;
+  }
+
+  /**
+   * Update an existing rule
+   * @returns The updated rule, or null if it does not exist
+   */
+  async update(
+    ruleId: string,
+    changes: Partial<
+      Pick<
+        SmartPlaylistRule,
+        "name" | "query" | "targetPlaylistId" | "scheduleMinutes"
+      >
+    >,
+    userId: string = "default"
+  ): Promise<SmartPlaylistRule | null> {
+    const rule = await smartPlaylistStore.get(ruleId, userId);
+    if (!rule) return null;
+
+    if (changes.query !== undefined) {
+      this.parse(changes.query);
+    }
+
+    const updated: SmartPlaylistRule = {
+      ...rule,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    await smartPlaylistStore.save(updated, userId);
+    return updated;
+  }
+
+  /**
+   * Evaluate a query and return the matching tracks in order
+   */
+  async preview(
+    query: string,
+    userId: string = "default"
+  ): Promise<OrderedEntry[]> {
+    const tracks = await this.evaluate(this.parse(query), userId);
+    return tracks.map((track, position) => ({
+      position,
+      uri: track.uri,
+      name: track.name,
+      artists: track.artists.map((artist) => artist.name),
+    }));
+  }
+
+  /**
+   * Evaluate a stored rule and replace its target playlist's contents,
+   * creating the playlist on first sync. Only the sync fields are saved
+   * afterwards, so edits made while syncing are kept. Callers asking for a
+   * rule that is already syncing share that sync.
+   */
+  sync(ruleId: string, userId: string = "default"): Promise<SmartPlaylistRule> {
+    const key = `${userId}:${ruleId}`;
+    let sync = this.syncing.get(key);
+    if (!sync) {
+      sync = this.runSync(ruleId, userId).finally(() =>
+        this.syncing.delete(key)
+      );
+      this.syncing.set(key, sync);
+    }
+    return sync;
+  }
+
+  private async runSync(
+    ruleId: string,
+    userId: string
+  ): Promise<SmartPlaylistRule> {
+    const rule = await smartPlaylistStore.get(ruleId, userId);
+    if (!rule) {
+      throw new Error(`Smart playlist ${ruleId} not found`);
+    }
+
+    const attemptedAt = new Date().toISOString();
+    const outcome: Partial<SmartPlaylistRule> = {};
+    let saved: SmartPlaylistRule;
+
+    try {
+      const tracks = await this.evaluate(this.parse(rule.query), userId);
+
+      if (!rule.targetPlaylistId) {
+        const playlist = await spotifyClient.createPlaylist(
+          {
+            name: rule.name,
+            description: `Smart playlist: ${rule.query}`.slice(0, 300),
+            public: false,
+          },
+          userId
+        );
+        rule.targetPlaylistId = playlist.id;
+        outcome.targetPlaylistId = playlist.id;
+      }
+
+      await spotifyClient.replacePlaylistTracks(
+        rule.targetPlaylistId,
+        tracks.map((track) => track.uri),
+        userId
+      );
+
+      outcome.lastSyncedAt = new Date().toISOString();
+      outcome.lastSyncError = undefined;
+      outcome.syncFailures = 0;
+      console.log(
+        `Synced smart playlist "${rule.name}" with ${tracks.length} tracks`
+      );
+    } catch (error: any) {
+      outcome.lastSyncError = error?.message || String(error);
+      outcome.syncFailures = (rule.syncFailures ?? 0) + 1;
+      throw error;
+    } finally {
+      saved = await this.saveSyncOutcome(rule, attemptedAt, outcome, userId);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Apply a sync's results to the rule as stored now. A rule deleted while
+   * syncing stays deleted.
+   */
+  private async saveSyncOutcome(
+    rule: SmartPlaylistRule,
+    attemptedAt: string,
+    outcome: Partial<SmartPlaylistRule>,
+    userId: string
+  ): Promise<SmartPlaylistRule> {
+    const current = await smartPlaylistStore.get(rule.id, userId);
+    const base = current ?? rule;
+    const updated: SmartPlaylistRule = {
+      ...base,
+      ...outcome,
+      // Keep a target chosen while the playlist was being created
+      targetPlaylistId: base.targetPlaylistId ?? outcome.targetPlaylistId,
+      lastSyncAttemptAt: attemptedAt,
+    };
+
+    if (current) {
+      await smartPlaylistStore.save(updated, userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Periodically sync rules that have a schedule
+   */
+  startScheduler(): void {
+    if (this.schedulerTimer) return;
+
+    this.schedulerTimer = setInterval(() => {
+      this.runDueRules().catch((error) =>
+        console.error("Smart playlist scheduler error:", error)
+      );
+    }, SCHEDULER_INTERVAL_MS);
+    console.log("Smart playlist scheduler started");
+  }
+
+  /**
+   * Stop the scheduler when shutting down
+   */
+  stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  /**
+   * Sync every scheduled rule whose interval has elapsed
+   */
+  private async runDueRules(): Promise<void> {
+    // Skip this tick if the previous run is still syncing
+    if (this.schedulerRunning) return;
+    this.schedulerRunning = true;
+
+    try {
+      for (const userId of await smartPlaylistStore.listUsers()) {
+        for (const rule of await smartPlaylistStore.list(userId)) {
+          if (!rule.scheduleMinutes) continue;
+
+          if (Date.now() < getNextSyncTime(rule)) continue;
+
+          await this.sync(rule.id, userId).catch((error) =>
+            console.error(`Scheduled sync of ${rule.id} failed:`, error)
+          );
+        }
+      }
+    } finally {
+      this.schedulerRunning = false;
+    }
+  }
+
+  private parse(query: string): SmartQuery {
+    const parsed = parseSmartQuery(query);
+    if (parsed.sources.length === 0) {
+      throw new SmartQueryError(
+        "Query must name at least one source, e.g. source in [liked]",
+        0
+      );
+    }
+    return parsed;
+  }
+
+  /**
+   * Fetch the query's sources and return the matching tracks, ordered
+   * and limited as requested
+   */
+  private async evaluate(
+    query: SmartQuery,
+    userId: string
+  ): Promise<SpotifyTrack[]> {
+    const candidates = await this.loadCandidates(query, userId);
+    const { condition, orderBy, limit } = query;
+
+    let matches = candidates.filter(
+      (candidate) => !condition || this.matches(condition, candidate)
+    );
+
+    if (orderBy.length > 0) {
+      matches = matches
+        .map((candidate, index) => ({ candidate, index }))
+        .sort((a, b) => {
+          for (const { field, direction } of orderBy) {
+            const result = this.compareValues(
+              this.getValues(a.candidate, field)[0],
+              this.getValues(b.candidate, field)[0],
+              direction === "desc" ? -1 : 1,
+              QUERY_FIELDS[field].type === "date"
+            );
+            if (result !== 0) return result;
+          }
+          return a.index - b.index;
+        })
+        .map(({ candidate }) => candidate);
+    }
+
+    return matches
+      .slice(0, limit ?? undefined)
+      .map((candidate) => candidate.track);
+  }
+
+  /**
+   * Load the tracks of every source, merged by URI, along with the
+   * audio features and genres the query refers to
+   */
+  private async loadCandidates(
+    query: SmartQuery,
+    userId: string
+  ): Promise<Candidate[]> {
+    const candidates = new Map<string, Candidate>();
+
+    for (const source of query.sources) {
+      const items = await spotifyClient.getAllTracksFromSource(source, userId);
+      items.filter(isTrackItem).forEach((item) => {
+        if (item.is_local) return;
+
+        const existing = candidates.get(item.track.uri);
+        if (existing) {
+          existing.sources.add(source);
+          return;
+        }
+
+        candidates.set(item.track.uri, {
+          track: item.track,
+          addedAt: item.added_at,
+          sources: new Set([source]),
+          genres: [],
+        });
+      });
+    }
+
+    const list = Array.from(candidates.values());
+    const needs = new Set(
+      this.referencedFields(query).map((field) => QUERY_FIELDS[field].needs)
+    );
+
+    if (needs.has("features")) {
+      const features = await spotifyClient.getAudioFeatures(
+        list.map((candidate) => candidate.track.id),
+        userId
+      );
+      list.forEach((candidate) => {
+        candidate.features = features.get(candidate.track.id);
+      });
+    }
+
+    if (needs.has("genres")) {
+      const artists = await spotifyClient.getArtists(
+        list.flatMap((candidate) =>
+          candidate.track.artists.map((artist) => artist.id)
+        ),
+        userId
+      );
+      list.forEach((candidate) => {
+        candidate.genres = Array.from(
+          new Set(
+            candidate.track.artists.flatMap(
+              (artist) => artists.get(artist.id)?.genres ?? []
+            )
+          )
+        );
+      });
+    }
+
+    return list;
+  }
+
+  private referencedFields(query: SmartQuery): string[] {
+    const fields = query.orderBy.map((order) => order.field);
+    const walk = (condition: QueryCondition | null) => {
+      if (!condition) return;
+      if (condition.kind === "comparison") {
+        fields.push(condition.field);
+      } else if (condition.kind === "not") {
+        walk(condition.operand);
+      } else {
+        walk(condition.left);
+        walk(condition.right);
+      }
+    };
+    walk(query.condition);
+    return fields;
+  }
+
+  private matches(condition: QueryCondition, candidate: Candidate): boolean {
+    switch (condition.kind) {
+      case "and":
+        return (
+          this.matches(condition.left, candidate) &&
+          this.matches(condition.right, candidate)
+        );
+      case "or":
+        return (
+          this.matches(condition.left, candidate) ||
+          this.matches(condition.right, candidate)
+        );
+      case "not":
+        return !this.matches(condition.operand, candidate);
+      case "comparison": {
+        const { field, operator, value } = condition;
+        const actual = this.getValues(candidate, field).filter(
+          (v) => v !== undefined
+        );
+        if (actual.length === 0) return false;
+
+        const expected = Array.isArray(value) ? value : [value];
+        const isDate = QUERY_FIELDS[field].type === "date";
+
+        switch (operator) {
+          case "=":
+          case "in":
+            return actual.some((a) =>
+              expected.some((e) => this.equals(a, e, isDate))
+            );
+          case "!=":
+            return !actual.some((a) =>
+              expected.some((e) => this.equals(a, e, isDate))
+            );
+          case "contains":
+            return actual.some((a) =>
+              String(a).toLowerCase().includes(String(value).toLowerCase())
+            );
+          default: {
+            const comparison = this.compareValues(
+              actual[0],
+              value as QueryValue,
+              1,
+              isDate
+            );
+            return operator === ">"
+              ? comparison > 0
+              : operator === ">="
+              ? comparison >= 0
+              : operator === "<"
+              ? comparison < 0
+              : comparison <= 0;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Values of a field for a candidate; multi-valued fields return several
+   */
+  private getValues(candidate: Candidate, field: string): FieldValue[] {
+    const { track, features } = candidate;
+
+    switch (field) {
+      case "source":
+        return Array.from(candidate.sources);
+      case "name":
+        return [track.name];
+      case "artist":
+        return track.artists.map((artist) => artist.name);
+      case "album":
+        return [track.album.name];
+      case "genre":
+        return candidate.genres;
+      case "added_at":
+        return [candidate.addedAt ?? undefined];
+      case "release_date":
+        return [track.album.release_date || undefined];
+      case "release_year": {
+        const year = parseInt(track.album.release_date, 10);
+        return [Number.isNaN(year) ? undefined : year];
+      }
+      case "popularity":
+        return [track.popularity];
+      case "duration_ms":
+        return [track.duration_ms];
+      case "explicit":
+        return [track.explicit];
+      default:
+        return [features?.[field as keyof SpotifyAudioFeatures] as FieldValue];
+    }
+  }
+
+  /**
+   * Case-insensitive equality; dates match on the given precision,
+   * so "2023-05" equals any day in May 2023
+   */
+  private equals(actual: FieldValue, expected: QueryValue, isDate: boolean) {
+    if (typeof actual === "string" && typeof expected === "string") {
+      const value = isDate ? actual.slice(0, expected.length) : actual;
+      return value.toLowerCase() === expected.toLowerCase();
+    }
+    return actual === expected;
+  }
+
+  /**
+   * Compare two values; missing values sort last in either direction.
+   * ISO dates compare as plain strings so partial dates work as bounds.
+   */
+  private compareValues(
+    a: FieldValue,
+    b: FieldValue,
+    direction: 1 | -1,
+    isDate: boolean = false
+  ): number {
+    if (a === undefined || b === undefined) {
+      return a === b ? 0 : a === undefined ? 1 : -1;
+    }
+    if (typeof a === "number" && typeof b === "number") {
+      return direction * (a - b);
+    }
+    if (isDate) {
+      return direction * (a < b ? -1 : a > b ? 1 : 0);
+    }
+    return (
+      direction *
+      String(a).localeCompare(String(b), undefined, { sensitivity: "base" })
+    );
+  }
+}
+
+// Create and export default instance
+const smartPlaylists = new SmartPlaylists();
+export default smartPlaylists;
@@ -5,14 +5,159 @@ import apiCache from "./apiCache";
 import rateLimiter from "./rateLimiter";
 import tokenStorage from "./tokenStorage";
 import {
-  SpotifyUser,
+  PaginationOptions,
+  PlaybackStartOptions,
+  PlaylistDetails,
+  PlaylistSnapshotResponse,
+  PlaylistTrackRemoval,
+  PlaylistTrackItem,
+  RecommendationRequest,
+  RepeatMode,
+  RetryOptions,
+  SearchOptions,
+  SpotifyArtist,
+  SpotifyAudioFeatures,
+  SpotifyDevice,
+  SpotifyPagingObject,
+  SpotifyPlaybackState,
+  SpotifyPlaylist,
+  SpotifyPlaylistFull,
+  SpotifyPlaylistTracksResponse,
   SpotifyPlaylistsResponse,
+  SpotifyRecentlyPlayedResponse,
+  SpotifyRecommendationsResponse,
+  SpotifySavedAlbum,
+  SpotifySavedTrack,
+  SpotifySearchResponse,
+  SpotifySearchType,
+  SpotifyTimeRange,
+  SpotifyTrack,
+  SpotifyUser,
   TokenData,
 } from "../types/types";
+import {
+  assertShape,
+  isPagingObject,
+  isPlaylistTrackItem,
+} from "./spotifyGuards";
 import * as dotenv from "dotenv";
 
 dotenv.config();
 
+// Spotify accepts at most 100 items per playlist modification request
+const PLAYLIST_CHUNK_SIZE = 100;
+
+// Pseudo playlist ID referring to the user's Liked Songs
+export const LIKED_SONGS_ID = "liked";
+
+// Maximum IDs per request for the multi-ID lookup endpoints
+const AUDIO_FEATURES_BATCH_SIZE = 100;
+const ARTISTS_BATCH_SIZE = 50;
+
+// Maximum IDs per request for the library endpoints
+const SAVED_TRACKS_BATCH_SIZE = 50;
+const SAVED_ALBUMS_BATCH_SIZE = 20;
+
+// Recommendations accept at most five seeds across tracks, artists and genres
+export const MAX_RECOMMENDATION_SEEDS = 5;
+
+// Methods whose 5xx responses are retried. A POST that failed with a 5xx may
+// still have been applied, and repeating it would add tracks or skip twice.
+const RETRY_5XX_METHODS = ["GET", "PUT", "DELETE"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Number of values in an ascending list that are below a value
+ */
+function countBelow(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Present a saved track as a playlist entry
+ */
+function toPlaylistItem(saved: SpotifySavedTrack): PlaylistTrackItem {
+  return {
+    added_at: saved.added_at,
+    added_by: null,
+    is_local: false,
+    track: saved.track,
+  };
+}
+
+/**
+ * Read the `reason` Spotify gives for some errors, such as
+ * `NO_ACTIVE_DEVICE` for player commands
+ */
+function parseErrorReason(errorText: string): string | undefined {
+  try {
+    const reason = JSON.parse(errorText)?.error?.reason;
+    return typeof reason === "string" ? reason : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Error raised for failed Spotify API calls, carrying the HTTP status
+ */
+export class SpotifyApiError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  reason?: string;
+
+  constructor(
+    message: string,
+    status: number,
+    retryAfterMs?: number,
+    reason?: string
+  ) {
+    super(message);
+    this.name = "SpotifyApiError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised by player commands when no device is playing or was named
+ */
+export class NoActiveDeviceError extends SpotifyApiError {
+  constructor() {
+    super(
+      "No active Spotify device. Start Spotify on a device or transfer playback to one",
+      404,
+      undefined,
+      "NO_ACTIVE_DEVICE"
+    );
+    this.name = "NoActiveDeviceError";
+  }
+}
+
+/**
+ * Raised by player commands for users without Spotify Premium
+ */
+export class PremiumRequiredError extends SpotifyApiError {
+  constructor() {
+    super(
+      "Controlling playback requires Spotify Premium",
+      403,
+      undefined,
+      "PREMIUM_REQUIRED"
+    );
+    this.name = "PremiumRequiredError";
+  }
+}
+
 /**
  * SpotifyClient provides a wrapper around the Spotify Web API
  * with integrated caching, rate limiting, and token management
@@ -23,6 +168,19 @@ export class SpotifyClient {
   private clientSecret: string;
   private redirectUri: string;
 
+  // Retry-After deadlines (epoch ms) per user, shared by all queued callers
+  private throttledUntil = new Map<string, number>();
+
+  private retryPolicy: Required<RetryOptions> = {
+    maxAttempts: parseInt(process.env.SPOTIFY_MAX_ATTEMPTS ?? "5", 10),
+    deadlineMs: parseInt(
+      process.env.SPOTIFY_REQUEST_DEADLINE_MS ?? "120000",
+      10
+    ),
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+  };
+
   constructor() {
     this.clientId = process.env.SPOTIFY_CLIENT_ID || "";
     this.clientSecret = process.env.SPOTIFY_CLIENT_SECRET || "";
@@ -95,7 +253,11 @@ export class SpotifyClient {
   }
 
   /**
-   * Make an authenticated request to the Spotify API with caching and rate limiting
+   * Make an authenticated request to the Spotify API with caching, rate
+   * limiting and retries. Callers wait for the local rate limit and for
+   * Spotify's Retry-After window instead of failing immediately; 5xx
+   * responses to GET, PUT and DELETE are retried with jittered exponential
+   * backoff.
    */
   private async request<T>(
     endpoint: string,
@@ -103,16 +265,19 @@ export class SpotifyClient {
     params: Record<string, any> = {},
     body?: any,
     userId: string = "default",
-    useCache: boolean = true
+    useCache: boolean = true,
+    retry: RetryOptions = {}
   ): Promise<T> {
-    // Check rate limits
-    const rateCheck = await rateLimiter.checkLimit(endpoint, userId);
-    if (!rateCheck.allowed) {
-      console.warn(
-        `Rate limit exceeded for ${endpoint}. Reset at ${rateCheck.resetTime}`
-      );
-      throw new Error(
-        `Rate limit exceeded. Try again after ${rateCheck.resetTime}`
+    const policy = { ...this.retryPolicy, ...retry };
+    const deadline = Date.now() + policy.deadlineMs;
+
+    // Queue behind the local rate limit instead of rejecting
+    const gotSlot = await rateLimiter.waitForSlot(endpoint, userId, deadline);
+    if (!gotSlot) {
+      console.warn(`Rate limit exceeded for ${endpoint} until deadline`);
+      throw new SpotifyApiError(
+        `Rate limit exceeded for ${endpoint}. Try again later`,
+        429
       );
     }
 
@@ -125,9 +290,6 @@ export class SpotifyClient {
       }
     }
 
-    // Ensure we have a valid token
-    const tokens = await this.ensureValidToken(userId);
-
     // Build URL with query parameters
     let url = `${this.baseUrl}${endpoint}`;
     if (Object.keys(params).length > 0) {
@@ -138,62 +300,166 @@ export class SpotifyClient {
       url += `?${queryParams.toString()}`;
     }
 
-    // Make the request
-    try {
-      console.log(`Making ${method} request to ${url}`);
+    let tokenRefreshed = false;
 
-      const response = await fetch(url, {
-        method,
-        headers: {
-          Authorization: `Bearer ${tokens.access_token}`,
-          "Content-Type": "application/json",
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      });
+    for (let attempt = 1; ; attempt++) {
+      // Wait while Spotify has throttled this user
+      await this.waitForThrottle(userId, deadline);
 
-      // Handle non-success responses
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`API error (${response.status}): ${errorText}`);
-
-        // Handle 401 specifically (token might have just expired)
-        if (response.status === 401) {
-          // Force token refresh and retry once
-          await tokenStorage.saveTokens(
-            {
-              ...tokens,
-              expires_at: new Date(0).toISOString(), // Force expiration
-            },
-            userId
-          );
+      // Ensure we have a valid token
+      const tokens = await this.ensureValidToken(userId);
 
-          // Retry the request (once)
-          return this.request<T>(endpoint, method, params, body, userId, false);
+      let response;
+      try {
+        console.log(`Making ${method} request to ${url}`);
+
+        response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${tokens.access_token}`,
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        });
+      } catch (error) {
+        console.error(`Request error for ${url}:`, error);
+        throw error;
+      }
+
+      if (response.ok) {
+        // Parse JSON response (some write endpoints reply with an empty body)
+        const text = await response.text();
+        const data = (text ? JSON.parse(text) : undefined) as T;
+
+        // Cache the response for GET requests
+        if (method === "GET" && useCache) {
+          await apiCache.set(endpoint, params, data, userId);
         }
 
-        throw new Error(`Spotify API error: ${response.status} ${errorText}`);
+        return data;
       }
 
-      // Parse JSON response
-      const data = (await response.json()) as T;
+      const errorText = await response.text();
+      console.error(`API error (${response.status}): ${errorText}`);
 
-      // Cache the response for GET requests
-      if (method === "GET" && useCache) {
-        await apiCache.set(endpoint, params, data, userId);
+      // Handle 401 specifically (token might have just expired)
+      if (response.status === 401 && !tokenRefreshed) {
+        // Force token refresh and retry once
+        await tokenStorage.saveTokens(
+          {
+            ...tokens,
+            expires_at: new Date(0).toISOString(), // Force expiration
+          },
+          userId
+        );
+        tokenRefreshed = true;
+        attempt--;
+        continue;
       }
 
-      return data;
-    } catch (error) {
-      console.error(`Request error for ${url}:`, error);
-      throw error;
+      let delayMs: number;
+      if (response.status === 429) {
+        // Spotify tells us how many seconds to wait; hold every caller for this user
+        const retryAfter = Number(response.headers.get("retry-after"));
+        delayMs =
+          Number.isFinite(retryAfter) && retryAfter > 0
+            ? retryAfter * 1000
+            : this.getBackoffDelay(attempt, policy);
+        this.throttledUntil.set(userId, Date.now() + delayMs);
+      } else if (response.status >= 500 && RETRY_5XX_METHODS.includes(method)) {
+        delayMs = this.getBackoffDelay(attempt, policy);
+      } else {
+        throw new SpotifyApiError(
+          `Spotify API error: ${response.status} ${errorText}`,
+          response.status,
+          undefined,
+          parseErrorReason(errorText)
+        );
+      }
+
+      if (attempt >= policy.maxAttempts || Date.now() + delayMs > deadline) {
+        throw new SpotifyApiError(
+          `Spotify API error: ${response.status} ${errorText}`,
+          response.status,
+          response.status === 429 ? delayMs : undefined
+        );
+      }
+
+      console.warn(
+        `Retrying ${method} ${endpoint} in ${delayMs}ms (attempt ${attempt}/${policy.maxAttempts})`
+      );
+      // 429s wait at the top of the loop through the shared throttle window
+      if (response.status >= 500) {
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Wait until a Retry-After window set by Spotify for this user has passed
+   */
+  private async waitForThrottle(
+    userId: string,
+    deadline: number
+  ): Promise<void> {
+    const until = this.throttledUntil.get(userId);
+    if (!until) return;
+
+    const waitMs = until - Date.now();
+    if (waitMs <= 0) {
+      this.throttledUntil.delete(userId);
+      return;
+    }
+
+    if (Date.now() + waitMs > deadline) {
+      throw new SpotifyApiError(
+        `Spotify rate limit in effect for another ${waitMs}ms`,
+        429,
+        waitMs
+      );
     }
+
+    console.log(`Waiting ${waitMs}ms for Spotify rate limit window to reopen`);
+    await sleep(waitMs);
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private getBackoffDelay(
+    attempt: number,
+    policy: Required<RetryOptions>
+  ): number {
+    const ceiling = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Override the default retry policy for all subsequent requests
+   */
+  setRetryPolicy(retry: RetryOptions): void {
+    this.retryPolicy = { ...this.retryPolicy, ...retry };
   }
 
   /**
    * Get the current user's profile
    */
-  async getCurrentUser(userId: string = "default"): Promise<SpotifyUser> {
-    return this.request<SpotifyUser>("/me", "GET", {}, undefined, userId);
+  async getCurrentUser(
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyUser> {
+    return this.request<SpotifyUser>(
+      "/me",
+      "GET",
+      {},
+      undefined,
+      userId,
+      true,
+      retry
+    );
   }
 
   /**
@@ -202,14 +468,17 @@ export class SpotifyClient {
   async getCurrentUserPlaylists(
     offset: number = 0,
     limit: number = 20,
-    userId: string = "default"
+    userId: string = "default",
+    retry: RetryOptions = {}
   ): Promise<SpotifyPlaylistsResponse> {
     return this.request<SpotifyPlaylistsResponse>(
       "/me/playlists",
       "GET",
       { offset, limit },
       undefined,
-      userId
+      userId,
+      true,
+      retry
     );
   }
 
@@ -218,15 +487,47 @@ export class SpotifyClient {
    */
   async getPlaylist(
     playlistId: string,
-    userId: string = "default"
-  ): Promise<any> {
-    return this.request<any>(
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyPlaylistFull> {
+    if (playlistId === LIKED_SONGS_ID) {
+      return this.getLikedSongsPlaylist(userId, retry);
+    }
+
+    const playlist = await this.request<SpotifyPlaylistFull>(
       `/playlists/${playlistId}`,
       "GET",
       {},
       undefined,
-      userId
+      userId,
+      true,
+      retry
+    );
+
+    assertShape(playlist.tracks, isPagingObject, `playlist ${playlistId}`);
+    return playlist;
+  }
+
+  /**
+   * Get a playlist's current snapshot ID, bypassing the cache
+   */
+  async getPlaylistSnapshotId(
+    playlistId: string,
+    userId: string = "default"
+  ): Promise<string> {
+    if (playlistId === LIKED_SONGS_ID) {
+      return (await this.getLikedSongsPlaylist(userId)).snapshot_id;
+    }
+
+    const { snapshot_id } = await this.request<{ snapshot_id: string }>(
+      `/playlists/${playlistId}`,
+      "GET",
+      { fields: "snapshot_id" },
+      undefined,
+      userId,
+      false
     );
+    return snapshot_id;
   }
 
   /**
@@ -236,38 +537,1169 @@ export class SpotifyClient {
     playlistId: string,
     offset: number = 0,
     limit: number = 100,
-    userId: string = "default"
-  ): Promise<any> {
-    return this.request<any>(
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyPlaylistTracksResponse> {
+    if (playlistId === LIKED_SONGS_ID) {
+      const page = await this.getSavedTracks(
+        offset,
+        Math.min(limit, SAVED_TRACKS_BATCH_SIZE),
+        userId,
+        retry
+      );
+      return { ...page, items: page.items.map(toPlaylistItem) };
+    }
+
+    const page = await this.request<SpotifyPlaylistTracksResponse>(
       `/playlists/${playlistId}/tracks`,
       "GET",
       { offset, limit },
       undefined,
+      userId,
+      true,
+      retry
+    );
+
+    return assertShape(
+      page,
+      isPagingObject<PlaylistTrackItem>,
+      `tracks of playlist ${playlistId}`
+    );
+  }
+
+  /**
+   * Iterate over every playlist of the current user, following `next` links
+   */
+  iterateUserPlaylists(
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SpotifyPlaylist> {
+    return this.paginate<SpotifyPlaylist>(
+      "/me/playlists",
+      { offset: 0, limit: Math.min(options.pageSize ?? 50, 50) },
+      userId,
+      options
+    );
+  }
+
+  /**
+   * Fetch all playlists of the current user
+   */
+  async getAllUserPlaylists(
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): Promise<SpotifyPlaylist[]> {
+    return this.collect(this.iterateUserPlaylists(userId, options));
+  }
+
+  /**
+   * Iterate over every track of a playlist, following `next` links.
+   * `LIKED_SONGS_ID` iterates Liked Songs as playlist entries.
+   */
+  iteratePlaylistTracks(
+    playlistId: string,
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): AsyncGenerator<PlaylistTrackItem> {
+    if (playlistId === LIKED_SONGS_ID) {
+      return this.iterateLikedSongsAsItems(userId, options);
+    }
+
+    return this.paginate<PlaylistTrackItem>(
+      `/playlists/${playlistId}/tracks`,
+      {
+        offset: 0,
+        limit: Math.min(options.pageSize ?? 100, 100),
+        ...(options.market && { market: options.market }),
+      },
+      userId,
+      options,
+      isPlaylistTrackItem,
+      // Malformed entries read like tracks removed from the catalog
+      () => ({ added_at: null, added_by: null, is_local: false, track: null })
+    );
+  }
+
+  /**
+   * Fetch all tracks of a playlist
+   */
+  async getAllPlaylistTracks(
+    playlistId: string,
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): Promise<PlaylistTrackItem[]> {
+    return this.collect(
+      this.iteratePlaylistTracks(playlistId, userId, options)
+    );
+  }
+
+  /**
+   * Fetch a playlist together with all of its items. Item positions in the
+   * returned array match positions in the playlist at `playlist.snapshot_id`
+   * unless it changes while the pages are read; malformed items are kept as
+   * placeholders without a track.
+   */
+  async getPlaylistWithTracks(
+    playlistId: string,
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): Promise<{ playlist: SpotifyPlaylistFull; items: PlaylistTrackItem[] }> {
+    // The playlist and its pages are cached separately and may be from
+    // different versions, so read both fresh
+    await apiCache.invalidate(
+      playlistId === LIKED_SONGS_ID ? "/me/tracks" : `/playlists/${playlistId}`,
       userId
     );
+    const playlist = await this.getPlaylist(playlistId, userId, options);
+    const items = await this.getAllPlaylistTracks(playlistId, userId, options);
+    return { playlist, items };
   }
 
   /**
-   * Search the Spotify catalog
+   * Liked Songs as a playlist object, so playlist tools can read it like
+   * any other playlist. Its snapshot ID changes whenever tracks are saved
+   * or removed.
    */
-  async search(
-    query: string,
-    type: string | string[],
-    limit: number = 20,
+  async getLikedSongsPlaylist(
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyPlaylistFull> {
+    const [owner, page] = await Promise.all([
+      this.getCurrentUser(userId, retry),
+      // Uncached, so the snapshot ID reflects the library right now
+      this.request<SpotifyPagingObject<SpotifySavedTrack>>(
+        "/me/tracks",
+        "GET",
+        { offset: 0, limit: SAVED_TRACKS_BATCH_SIZE },
+        undefined,
+        userId,
+        false,
+        retry
+      ),
+    ]);
+    assertShape(page, isPagingObject<SpotifySavedTrack>, "Liked Songs");
+
+    return {
+      collaborative: false,
+      description: "Tracks saved to your library",
+      external_urls: { spotify: "https://open.spotify.com/collection/tracks" },
+      followers: { href: null, total: 0 },
+      href: `${this.baseUrl}/me/tracks`,
+      id: LIKED_SONGS_ID,
+      images: [],
+      name: "Liked Songs",
+      owner,
+      public: false,
+      snapshot_id: `${LIKED_SONGS_ID}:${page.total}:${
+        page.items[0]?.added_at ?? ""
+      }`,
+      tracks: { ...page, items: page.items.map(toPlaylistItem) },
+      type: "playlist",
+      uri: `spotify:user:${owner.id}:collection`,
+    };
+  }
+
+  /**
+   * Get a page of the user's Liked Songs, most recently saved first
+   */
+  async getSavedTracks(
     offset: number = 0,
+    limit: number = SAVED_TRACKS_BATCH_SIZE,
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyPagingObject<SpotifySavedTrack>> {
+    const page = await this.request<SpotifyPagingObject<SpotifySavedTrack>>(
+      "/me/tracks",
+      "GET",
+      { offset, limit },
+      undefined,
+      userId,
+      true,
+      retry
+    );
+    return assertShape(page, isPagingObject<SpotifySavedTrack>, "Liked Songs");
+  }
+
+  /**
+   * Iterate over every track in the user's Liked Songs
+   */
+  iterateSavedTracks(
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SpotifySavedTrack> {
+    return this.paginate<SpotifySavedTrack>(
+      "/me/tracks",
+      {
+        offset: 0,
+        limit: Math.min(options.pageSize ?? 50, 50),
+        ...(options.market && { market: options.market }),
+      },
+      userId,
+      options
+    );
+  }
+
+  private async *iterateLikedSongsAsItems(
+    userId: string,
+    options: PaginationOptions
+  ): AsyncGenerator<PlaylistTrackItem> {
+    for await (const saved of this.iterateSavedTracks(userId, options)) {
+      yield toPlaylistItem(saved);
+    }
+  }
+
+  /**
+   * Fetch all tracks of a playlist, or of Liked Songs when given
+   * `LIKED_SONGS_ID`, as playlist entries
+   */
+  async getAllTracksFromSource(
+    sourceId: string,
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): Promise<PlaylistTrackItem[]> {
+    return this.getAllPlaylistTracks(sourceId, userId, options);
+  }
+
+  /**
+   * Save tracks to Liked Songs, in batches of 50
+   */
+  async saveTracks(
+    trackIds: string[],
     userId: string = "default"
-  ): Promise<any> {
-    const types = Array.isArray(type) ? type.join(",") : type;
+  ): Promise<void> {
+    await this.updateLibrary(
+      "/me/tracks",
+      "PUT",
+      trackIds,
+      SAVED_TRACKS_BATCH_SIZE,
+      userId
+    );
+  }
 
-    return this.request<any>(
-      "/search",
+  /**
+   * Remove tracks from Liked Songs, in batches of 50
+   */
+  async removeSavedTracks(
+    trackIds: string[],
+    userId: string = "default"
+  ): Promise<void> {
+    await this.updateLibrary(
+      "/me/tracks",
+      "DELETE",
+      trackIds,
+      SAVED_TRACKS_BATCH_SIZE,
+      userId
+    );
+  }
+
+  /**
+   * Check which tracks are in Liked Songs
+   * @returns One flag per ID, in the order given
+   */
+  async checkSavedTracks(
+    trackIds: string[],
+    userId: string = "default"
+  ): Promise<boolean[]> {
+    return this.checkLibrary(
+      "/me/tracks/contains",
+      trackIds,
+      SAVED_TRACKS_BATCH_SIZE,
+      userId
+    );
+  }
+
+  /**
+   * Get a page of the user's saved albums, most recently saved first
+   */
+  async getSavedAlbums(
+    offset: number = 0,
+    limit: number = 20,
+    userId: string = "default",
+    retry: RetryOptions = {}
+  ): Promise<SpotifyPagingObject<SpotifySavedAlbum>> {
+    const page = await this.request<SpotifyPagingObject<SpotifySavedAlbum>>(
+      "/me/albums",
       "GET",
-      { q: query, type: types, limit, offset },
+      { offset, limit },
       undefined,
+      userId,
+      true,
+      retry
+    );
+    return assertShape(page, isPagingObject<SpotifySavedAlbum>, "saved albums");
+  }
+
+  /**
+   * Iterate over every album saved in the user's library
+   */
+  iterateSavedAlbums(
+    userId: string = "default",
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SpotifySavedAlbum> {
+    return this.paginate<SpotifySavedAlbum>(
+      "/me/albums",
+      { offset: 0, limit: Math.min(options.pageSize ?? 50, 50) },
+      userId,
+      options
+    );
+  }
+
+  /**
+   * Save albums to the library, in batches of 20
+   */
+  async saveAlbums(
+    albumIds: string[],
+    userId: string = "default"
+  ): Promise<void> {
+    await this.updateLibrary(
+      "/me/albums",
+      "PUT",
+      albumIds,
+      SAVED_ALBUMS_BATCH_SIZE,
+      userId
+    );
+  }
+
+  /**
+   * Remove albums from the library, in batches of 20
+   */
+  async removeSavedAlbums(
+    albumIds: string[],
+    userId: string = "default"
+  ): Promise<void> {
+    await this.updateLibrary(
+      "/me/albums",
+      "DELETE",
+      albumIds,
+      SAVED_ALBUMS_BATCH_SIZE,
+      userId
+    );
+  }
+
+  /**
+   * Check which albums are saved in the library
+   * @returns One flag per ID, in the order given
+   */
+  async checkSavedAlbums(
+    albumIds: string[],
+    userId: string = "default"
+  ): Promise<boolean[]> {
+    return this.checkLibrary(
+      "/me/albums/contains",
+      albumIds,
+      SAVED_ALBUMS_BATCH_SIZE,
       userId
     );
   }
 
+  /**
+   * Save or remove library items in batches, then drop cached pages of
+   * the library
+   */
+  private async updateLibrary(
+    endpoint: string,
+    method: "PUT" | "DELETE",
+    ids: string[],
+    batchSize: number,
+    userId: string
+  ): Promise<void> {
+    for (let i = 0; i < ids.length; i += batchSize) {
+      await this.request<void>(
+        endpoint,
+        method,
+        {},
+        { ids: ids.slice(i, i + batchSize) },
+        userId,
+        false
+      );
+    }
+    await apiCache.invalidate(endpoint, userId);
+  }
+
+  private async checkLibrary(
+    endpoint: string,
+    ids: string[],
+    batchSize: number,
+    userId: string
+  ): Promise<boolean[]> {
+    const result: boolean[] = [];
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const flags = await this.request<boolean[]>(
+        endpoint,
+        "GET",
+        { ids: ids.slice(i, i + batchSize).join(",") },
+        undefined,
+        userId,
+        false
+      );
+      result.push(...flags);
+    }
+    return result;
+  }
+
+  /**
+   * Walk a paged endpoint page by page. Every page goes through `request`,
+   * so rate limiting and caching apply per page. Items failing the optional
+   * guard are replaced by `placeholder` so later positions do not shift, or
+   * fail the iteration if there is none.
+   */
+  private async *paginate<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    userId: string,
+    options: PaginationOptions,
+    itemGuard?: (item: unknown) => item is T,
+    placeholder?: () => T
+  ): AsyncGenerator<T> {
+    // Page size and market are part of `params`; the rest configures retries
+    const { maxItems, signal, pageSize, market, ...retry } = options;
+    let yielded = 0;
+    let nextPage: { endpoint: string; params: Record<string, any> } | null = {
+      endpoint,
+      params,
+    };
+
+    while (nextPage) {
+      if (signal?.aborted) {
+        throw new Error(`Pagination of ${endpoint} was cancelled`);
+      }
+
+      const page: SpotifyPagingObject<T> = await this.request<
+        SpotifyPagingObject<T>
+      >(
+        nextPage.endpoint,
+        "GET",
+        nextPage.params,
+        undefined,
+        userId,
+        true,
+        retry
+      );
+      assertShape(page, isPagingObject<T>, endpoint);
+
+      for (const item of page.items) {
+        if (maxItems !== undefined && yielded >= maxItems) return;
+        if (itemGuard && !itemGuard(item)) {
+          if (!placeholder) {
+            throw new TypeError(`Unexpected item shape from ${endpoint}`);
+          }
+          console.warn(
+            `Replacing malformed item at position ${yielded} from ${endpoint}`
+          );
+          yield placeholder();
+        } else {
+          yield item;
+        }
+        yielded++;
+      }
+
+      nextPage = page.next ? this.parsePageUrl(page.next) : null;
+    }
+  }
+
+  /**
+   * Convert an absolute `next` URL into an endpoint and query parameters
+   */
+  private parsePageUrl(url: string): {
+    endpoint: string;
+    params: Record<string, string>;
+  } {
+    const parsed = new URL(url);
+    const basePath = new URL(this.baseUrl).pathname;
+    const endpoint = parsed.pathname.startsWith(basePath)
+      ? parsed.pathname.slice(basePath.length)
+      : parsed.pathname;
+
+    const params: Record<string, string> = {};
+    parsed.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+
+    return { endpoint, params };
+  }
+
+  /**
+   * Drain an async iterator into an array
+   */
+  private async collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Create a playlist owned by the current user
+   */
+  async createPlaylist(
+    details: PlaylistDetails & { name: string },
+    userId: string = "default"
+  ): Promise<SpotifyPlaylist> {
+    const user = await this.getCurrentUser(userId);
+    const playlist = await this.request<SpotifyPlaylist>(
+      `/users/${user.id}/playlists`,
+      "POST",
+      {},
+      details,
+      userId,
+      false
+    );
+
+    await apiCache.invalidate("/me/playlists", userId);
+    return playlist;
+  }
+
+  /**
+   * Update a playlist's name, description, public or collaborative flag
+   */
+  async updatePlaylistDetails(
+    playlistId: string,
+    details: PlaylistDetails,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.request<void>(
+      `/playlists/${playlistId}`,
+      "PUT",
+      {},
+      details,
+      userId,
+      false
+    );
+
+    await this.invalidatePlaylist(playlistId, userId);
+  }
+
+  /**
+   * Add tracks to a playlist, split into requests of at most 100 URIs.
+   * When a position is given, the tracks are inserted there in order.
+   * @returns The snapshot ID after the last chunk was added
+   */
+  async addTracksToPlaylist(
+    playlistId: string,
+    uris: string[],
+    position?: number,
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse> {
+    let result: PlaylistSnapshotResponse = { snapshot_id: "" };
+
+    for (let i = 0; i < uris.length; i += PLAYLIST_CHUNK_SIZE) {
+      const chunk = uris.slice(i, i + PLAYLIST_CHUNK_SIZE);
+      result = await this.request<PlaylistSnapshotResponse>(
+        `/playlists/${playlistId}/tracks`,
+        "POST",
+        {},
+        position === undefined
+          ? { uris: chunk }
+          : { uris: chunk, position: position + i },
+        userId,
+        false
+      );
+    }
+
+    await this.invalidatePlaylist(playlistId, userId);
+    return result;
+  }
+
+  /**
+   * Remove tracks from a playlist by URI, optionally limited to specific
+   * positions. Pass the snapshot ID the positions were read from so Spotify
+   * applies the removal against that version of the playlist. Each later
+   * chunk is sent with the snapshot returned by the one before and its
+   * positions moved up past the tracks already removed.
+   * @returns The snapshot ID after the last chunk was removed
+   */
+  async removeTracksFromPlaylist(
+    playlistId: string,
+    tracks: PlaylistTrackRemoval[],
+    snapshotId?: string,
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse> {
+    let result: PlaylistSnapshotResponse = { snapshot_id: snapshotId ?? "" };
+
+    // Positioned removals go first: removing every occurrence of a URI
+    // would shift later positions by an unknown amount
+    const ordered = [
+      ...tracks.filter((track) => track.positions?.length),
+      ...tracks.filter((track) => !track.positions?.length),
+    ];
+    // Positions removed by earlier chunks, ascending
+    const removed: number[] = [];
+
+    for (let i = 0; i < ordered.length; i += PLAYLIST_CHUNK_SIZE) {
+      const chunk = ordered.slice(i, i + PLAYLIST_CHUNK_SIZE).map((track) =>
+        track.positions
+          ? {
+              ...track,
+              positions: track.positions.map(
+                (position) => position - countBelow(removed, position)
+              ),
+            }
+          : track
+      );
+      result = await this.request<PlaylistSnapshotResponse>(
+        `/playlists/${playlistId}/tracks`,
+        "DELETE",
+        {},
+        result.snapshot_id
+          ? { tracks: chunk, snapshot_id: result.snapshot_id }
+          : { tracks: chunk },
+        userId,
+        false
+      );
+
+      ordered
+        .slice(i, i + PLAYLIST_CHUNK_SIZE)
+        .forEach((track) => removed.push(...(track.positions ?? [])));
+      removed.sort((a, b) => a - b);
+    }
+
+    await this.invalidatePlaylist(playlistId, userId);
+    return result;
+  }
+
+  /**
+   * Replace all items of a playlist. The first 100 URIs replace the
+   * contents, the rest are appended in chunks.
+   */
+  async replacePlaylistTracks(
+    playlistId: string,
+    uris: string[],
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse> {
+    let result = await this.request<PlaylistSnapshotResponse>(
+      `/playlists/${playlistId}/tracks`,
+      "PUT",
+      {},
+      { uris: uris.slice(0, PLAYLIST_CHUNK_SIZE) },
+      userId,
+      false
+    );
+
+    if (uris.length > PLAYLIST_CHUNK_SIZE) {
+      result = await this.addTracksToPlaylist(
+        playlistId,
+        uris.slice(PLAYLIST_CHUNK_SIZE),
+        undefined,
+        userId
+      );
+    }
+
+    await this.invalidatePlaylist(playlistId, userId);
+    return result;
+  }
+
+  /**
+   * Move a range of tracks to a new position in the playlist
+   * @param rangeStart Position of the first track to move
+   * @param insertBefore Position the range should be inserted before
+   * @param rangeLength Number of consecutive tracks to move
+   */
+  async reorderPlaylistTracks(
+    playlistId: string,
+    rangeStart: number,
+    insertBefore: number,
+    rangeLength: number = 1,
+    snapshotId?: string,
+    userId: string = "default"
+  ): Promise<PlaylistSnapshotResponse> {
+    const result = await this.request<PlaylistSnapshotResponse>(
+      `/playlists/${playlistId}/tracks`,
+      "PUT",
+      {},
+      {
+        range_start: rangeStart,
+        insert_before: insertBefore,
+        range_length: rangeLength,
+        ...(snapshotId ? { snapshot_id: snapshotId } : {}),
+      },
+      userId,
+      false
+    );
+
+    await this.invalidatePlaylist(playlistId, userId);
+    return result;
+  }
+
+  /**
+   * Drop cached data for a playlist after it was modified
+   */
+  private async invalidatePlaylist(
+    playlistId: string,
+    userId: string
+  ): Promise<void> {
+    await Promise.all([
+      apiCache.invalidate(`/playlists/${playlistId}`, userId),
+      apiCache.invalidate("/me/playlists", userId),
+    ]);
+  }
+
+  /**
+   * Get audio features for any number of tracks. Features are cached per
+   * track and shared across users, so only unseen IDs hit the API.
+   * @returns Map of track ID to features; tracks without features are omitted
+   */
+  async getAudioFeatures(
+    trackIds: string[],
+    userId: string = "default"
+  ): Promise<Map<string, SpotifyAudioFeatures>> {
+    return this.getEntitiesBatched<SpotifyAudioFeatures>(
+      "audio-features",
+      trackIds,
+      AUDIO_FEATURES_BATCH_SIZE,
+      async (batch) => {
+        const response = await this.request<{
+          audio_features: (SpotifyAudioFeatures | null)[];
+        }>(
+          "/audio-features",
+          "GET",
+          { ids: batch.join(",") },
+          undefined,
+          userId,
+          false
+        );
+        return response.audio_features;
+      }
+    );
+  }
+
+  /**
+   * Get full artist objects (including genres) for any number of artists,
+   * cached per artist and shared across users
+   * @returns Map of artist ID to artist; unknown IDs are omitted
+   */
+  async getArtists(
+    artistIds: string[],
+    userId: string = "default"
+  ): Promise<Map<string, SpotifyArtist>> {
+    return this.getEntitiesBatched<SpotifyArtist>(
+      "artists",
+      artistIds,
+      ARTISTS_BATCH_SIZE,
+      async (batch) => {
+        const response = await this.request<{
+          artists: (SpotifyArtist | null)[];
+        }>(
+          "/artists",
+          "GET",
+          { ids: batch.join(",") },
+          undefined,
+          userId,
+          false
+        );
+        return response.artists;
+      }
+    );
+  }
+
+  /**
+   * Look up entities by ID through the per-entity cache, fetching only the
+   * misses in batches. `fetchBatch` must return results in the order of
+   * the IDs it was given, with null for unknown IDs.
+   */
+  private async getEntitiesBatched<T>(
+    type: string,
+    ids: string[],
+    batchSize: number,
+    fetchBatch: (batch: string[]) => Promise<(T | null)[]>
+  ): Promise<Map<string, T>> {
+    const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+    const entities = await apiCache.getEntities<T>(type, uniqueIds);
+    const missing = uniqueIds.filter((id) => !entities.has(id));
+
+    if (missing.length > 0) {
+      console.log(
+        `Fetching ${missing.length} ${type} (${
+          uniqueIds.length - missing.length
+        } cached)`
+      );
+    }
+
+    for (let i = 0; i < missing.length; i += batchSize) {
+      const batch = missing.slice(i, i + batchSize);
+      const results = await fetchBatch(batch);
+
+      // Remember misses too, so unknown IDs are not requested again
+      const fetched = new Map<string, T | null>();
+      batch.forEach((id, index) => fetched.set(id, results[index] ?? null));
+
+      await apiCache.setEntities(type, fetched);
+      fetched.forEach((entity, id) => entities.set(id, entity));
+    }
+
+    const found = new Map<string, T>();
+    entities.forEach((entity, id) => {
+      if (entity !== null) found.set(id, entity);
+    });
+    return found;
+  }
+
+  /**
+   * Get recommended tracks for up to five seeds (tracks, artists and
+   * genres combined), tuned by `min_`, `max_` and `target_` attributes
+   */
+  async getRecommendations(
+    request: RecommendationRequest,
+    userId: string = "default"
+  ): Promise<SpotifyRecommendationsResponse> {
+    const {
+      seedTracks = [],
+      seedArtists = [],
+      seedGenres = [],
+      limit = 20,
+      market,
+      attributes = {},
+    } = request;
+
+    const seeds = seedTracks.length + seedArtists.length + seedGenres.length;
+    if (seeds === 0 || seeds > MAX_RECOMMENDATION_SEEDS) {
+      throw new SpotifyApiError(
+        `Recommendations need 1 to ${MAX_RECOMMENDATION_SEEDS} seeds, got ${seeds}`,
+        400
+      );
+    }
+
+    return this.request<SpotifyRecommendationsResponse>(
+      "/recommendations",
+      "GET",
+      {
+        ...(seedTracks.length > 0 && { seed_tracks: seedTracks.join(",") }),
+        ...(seedArtists.length > 0 && { seed_artists: seedArtists.join(",") }),
+        ...(seedGenres.length > 0 && { seed_genres: seedGenres.join(",") }),
+        limit,
+        ...(market && { market }),
+        ...attributes,
+      },
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Genres accepted as recommendation seeds
+   */
+  async getAvailableGenreSeeds(userId: string = "default"): Promise<string[]> {
+    const response = await this.request<{ genres: string[] }>(
+      "/recommendations/available-genre-seeds",
+      "GET",
+      {},
+      undefined,
+      userId
+    );
+    return response.genres;
+  }
+
+  /**
+   * Search the Spotify catalog
+   */
+  async search<K extends SpotifySearchType>(
+    query: string,
+    type: K | K[],
+    limit: number = 20,
+    offset: number = 0,
+    userId: string = "default",
+    options: SearchOptions = {}
+  ): Promise<SpotifySearchResponse<K>> {
+    const types = Array.isArray(type) ? type.join(",") : type;
+    const { market, ...retry } = options;
+
+    return this.request<SpotifySearchResponse<K>>(
+      "/search",
+      "GET",
+      { q: query, type: types, limit, offset, ...(market && { market }) },
+      undefined,
+      userId,
+      true,
+      retry
+    );
+  }
+
+  /**
+   * Send a player command, translating Spotify's player errors into
+   * `NoActiveDeviceError` and `PremiumRequiredError`. Player state changes
+   * constantly, so nothing is cached.
+   */
+  private async playerRequest<T>(
+    endpoint: string,
+    method: "GET" | "POST" | "PUT",
+    params: Record<string, any>,
+    body: any,
+    userId: string
+  ): Promise<T> {
+    try {
+      return await this.request<T>(
+        `/me/player${endpoint}`,
+        method,
+        params,
+        body,
+        userId,
+        false
+      );
+    } catch (error) {
+      if (error instanceof SpotifyApiError) {
+        if (error.reason === "NO_ACTIVE_DEVICE")
+          throw new NoActiveDeviceError();
+        if (error.reason === "PREMIUM_REQUIRED") {
+          throw new PremiumRequiredError();
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's available playback devices
+   */
+  async getDevices(userId: string = "default"): Promise<SpotifyDevice[]> {
+    const response = await this.playerRequest<{ devices: SpotifyDevice[] }>(
+      "/devices",
+      "GET",
+      {},
+      undefined,
+      userId
+    );
+    return response.devices;
+  }
+
+  /**
+   * Get the current playback state, or null when nothing is playing
+   */
+  async getPlaybackState(
+    userId: string = "default"
+  ): Promise<SpotifyPlaybackState | null> {
+    // Spotify answers 204 with no body when no device is active
+    const state = await this.playerRequest<SpotifyPlaybackState | undefined>(
+      "",
+      "GET",
+      { additional_types: "track,episode" },
+      undefined,
+      userId
+    );
+    return state ?? null;
+  }
+
+  /**
+   * Move playback to another device
+   * @param play Start playing on the new device; otherwise keep the
+   * current play/pause state
+   */
+  async transferPlayback(
+    deviceId: string,
+    play: boolean = false,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "",
+      "PUT",
+      {},
+      { device_ids: [deviceId], play },
+      userId
+    );
+  }
+
+  /**
+   * Start playing a context or list of tracks, or resume playback
+   */
+  async startPlayback(
+    options: PlaybackStartOptions = {},
+    userId: string = "default"
+  ): Promise<void> {
+    const { contextUri, uris, offset, offsetUri, positionMs, deviceId } =
+      options;
+
+    const body = {
+      ...(contextUri && { context_uri: contextUri }),
+      ...(uris && { uris }),
+      ...(offsetUri
+        ? { offset: { uri: offsetUri } }
+        : offset !== undefined && { offset: { position: offset } }),
+      ...(positionMs !== undefined && { position_ms: positionMs }),
+    };
+
+    await this.playerRequest(
+      "/play",
+      "PUT",
+      deviceId ? { device_id: deviceId } : {},
+      Object.keys(body).length > 0 ? body : undefined,
+      userId
+    );
+  }
+
+  /**
+   * Pause playback
+   */
+  async pausePlayback(
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/pause",
+      "PUT",
+      deviceId ? { device_id: deviceId } : {},
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Skip to the next track
+   */
+  async skipToNext(
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/next",
+      "POST",
+      deviceId ? { device_id: deviceId } : {},
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Skip to the previous track
+   */
+  async skipToPrevious(
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/previous",
+      "POST",
+      deviceId ? { device_id: deviceId } : {},
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Turn shuffle on or off
+   */
+  async setShuffle(
+    state: boolean,
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/shuffle",
+      "PUT",
+      { state, ...(deviceId && { device_id: deviceId }) },
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Repeat the current track, the current context, or nothing
+   */
+  async setRepeat(
+    state: RepeatMode,
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/repeat",
+      "PUT",
+      { state, ...(deviceId && { device_id: deviceId }) },
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Set the volume (0-100)
+   */
+  async setVolume(
+    volumePercent: number,
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/volume",
+      "PUT",
+      {
+        volume_percent: volumePercent,
+        ...(deviceId && { device_id: deviceId }),
+      },
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Add a track or episode to the end of the queue
+   */
+  async addToQueue(
+    uri: string,
+    deviceId?: string,
+    userId: string = "default"
+  ): Promise<void> {
+    await this.playerRequest(
+      "/queue",
+      "POST",
+      { uri, ...(deviceId && { device_id: deviceId }) },
+      undefined,
+      userId
+    );
+  }
+
+  /**
+   * Get the user's most listened tracks over a time range (about four
+   * weeks, six months or a year)
+   */
+  async getTopTracks(
+    timeRange: SpotifyTimeRange,
+    limit: number = 20,
+    userId: string = "default"
+  ): Promise<SpotifyTrack[]> {
+    const page = await this.request<SpotifyPagingObject<SpotifyTrack>>(
+      "/me/top/tracks",
+      "GET",
+      { time_range: timeRange, limit: Math.min(limit, 50) },
+      undefined,
+      userId
+    );
+    return page.items;
+  }
+
+  /**
+   * Get the user's most listened artists over a time range
+   */
+  async getTopArtists(
+    timeRange: SpotifyTimeRange,
+    limit: number = 20,
+    userId: string = "default"
+  ): Promise<SpotifyArtist[]> {
+    const page = await this.request<SpotifyPagingObject<SpotifyArtist>>(
+      "/me/top/artists",
+      "GET",
+      { time_range: timeRange, limit: Math.min(limit, 50) },
+      undefined,
+      userId
+    );
+    return page.items;
+  }
+
+  /**
+   * Get up to 50 of the user's most recent plays, newest first. Spotify
+   * keeps only the last 50, so `after` (epoch ms) just narrows them down.
+   */
+  async getRecentlyPlayed(
+    after?: number,
+    limit: number = 50,
+    userId: string = "default"
+  ): Promise<SpotifyRecentlyPlayedResponse> {
+    return this.request<SpotifyRecentlyPlayedResponse>(
+      "/me/player/recently-played",
+      "GET",
+      { limit: Math.min(limit, 50), ...(after !== undefined && { after }) },
+      undefined,
+      userId,
+      false
+    );
+  }
+
   /**
    * Clear API cache for a user when they log out
    */
@@ -0,0 +1,157 @@
+// File: src/utils/spotifyGuards.ts
+
+import {
+  PlaylistTrackItem,
+  SpotifyAlbumSimplified,
+  SpotifyArtistSimplified,
+  SpotifyEpisode,
+  SpotifyPagingObject,
+  SpotifySearchType,
+  SpotifyTrack,
+} from "../types/types";
+
+/**
+ * Runtime validators for Spotify API responses.
+ * They check the fields the app relies on, not every documented property.
+ */
+
+const SEARCH_TYPES: SpotifySearchType[] = [
+  "album",
+  "artist",
+  "episode",
+  "playlist",
+  "show",
+  "track",
+];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Check that a value is a Spotify paging object
+ */
+export function isPagingObject<T = unknown>(
+  value: unknown
+): value is SpotifyPagingObject<T> {
+  return (
+    isObject(value) &&
+    Array.isArray(value.items) &&
+    typeof value.total === "number" &&
+    (value.next === null || typeof value.next === "string")
+  );
+}
+
+/**
+ * Check that a value is a simplified artist object
+ */
+export function isSpotifyArtist(
+  value: unknown
+): value is SpotifyArtistSimplified {
+  return (
+    isObject(value) &&
+    value.type === "artist" &&
+    typeof value.name === "string" &&
+    // Local files have artists without an ID
+    (value.id === null || typeof value.id === "string")
+  );
+}
+
+/**
+ * Check that a value is a simplified album object
+ */
+export function isSpotifyAlbum(
+  value: unknown
+): value is SpotifyAlbumSimplified {
+  return (
+    isObject(value) &&
+    value.type === "album" &&
+    typeof value.name === "string" &&
+    Array.isArray(value.images) &&
+    Array.isArray(value.artists)
+  );
+}
+
+/**
+ * Check that a value is a full track object
+ */
+export function isSpotifyTrack(value: unknown): value is SpotifyTrack {
+  return (
+    isObject(value) &&
+    value.type === "track" &&
+    typeof value.uri === "string" &&
+    typeof value.name === "string" &&
+    typeof value.duration_ms === "number" &&
+    Array.isArray(value.artists) &&
+    value.artists.every(isSpotifyArtist) &&
+    isSpotifyAlbum(value.album)
+  );
+}
+
+/**
+ * Check that a value is a full episode object
+ */
+export function isSpotifyEpisode(value: unknown): value is SpotifyEpisode {
+  return (
+    isObject(value) &&
+    value.type === "episode" &&
+    typeof value.uri === "string" &&
+    typeof value.name === "string" &&
+    typeof value.duration_ms === "number"
+  );
+}
+
+/**
+ * Check that a value is a playlist entry whose content is valid or null
+ */
+export function isPlaylistTrackItem(
+  value: unknown
+): value is PlaylistTrackItem {
+  return (
+    isObject(value) &&
+    typeof value.is_local === "boolean" &&
+    (value.added_at === null || typeof value.added_at === "string") &&
+    (value.track === null ||
+      isSpotifyTrack(value.track) ||
+      isSpotifyEpisode(value.track))
+  );
+}
+
+/**
+ * Narrow a playlist entry to one holding a track
+ */
+export function isTrackItem(
+  item: PlaylistTrackItem
+): item is PlaylistTrackItem<SpotifyTrack> & { track: SpotifyTrack } {
+  return item.track !== null && item.track.type === "track";
+}
+
+/**
+ * Narrow a playlist entry to one holding a podcast episode
+ */
+export function isEpisodeItem(
+  item: PlaylistTrackItem
+): item is PlaylistTrackItem<SpotifyEpisode> & { track: SpotifyEpisode } {
+  return item.track !== null && item.track.type === "episode";
+}
+
+/**
+ * Check that a string is an item type accepted by the search endpoint
+ */
+export function isSearchType(value: string): value is SpotifySearchType {
+  return (SEARCH_TYPES as string[]).includes(value);
+}
+
+/**
+ * Throw if a response does not match the expected shape
+ */
+export function assertShape<T>(
+  value: unknown,
+  guard: (value: unknown) => value is T,
+  description: string
+): T {
+  if (!guard(value)) {
+    throw new TypeError(`Unexpected response shape for ${description}`);
+  }
+  return value;
+}
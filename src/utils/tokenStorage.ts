@@ -160,6 +160,28 @@ export class TokenStorage {
     }
   }
 
+  /**
+   * List the users that have tokens stored
+   */
+  async listUserIds(): Promise<string[]> {
+    const envSuffix = this.isProduction ? "prod" : "dev";
+
+    try {
+      if (this.redis) {
+        const keys = await this.redis.keys(`${this.tokenPrefix}*:${envSuffix}`);
+        return keys.map((key) =>
+          key.slice(this.tokenPrefix.length, -`:${envSuffix}`.length)
+        );
+      }
+
+      // The token file holds the default user's tokens only
+      return fs.existsSync(this.getTokenKey()) ? ["default"] : [];
+    } catch (error) {
+      console.error("Failed to list token users:", error);
+      return [];
+    }
+  }
+
   /**
    * Check if tokens are expired
    */
@@ -0,0 +1,51 @@
+// File: src/utils/trackNormalizer.ts
+
+/**
+ * Helpers for comparing track titles and artist names across releases
+ */
+
+// Suffix keywords that mark a different release of the same song
+const VERSION_KEYWORDS =
+  /\b(remaster(ed)?|live|version|edit|mono|stereo|deluxe|anniversary|bonus|single|album|explicit|clean)\b/i;
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalize a track title, dropping release annotations such as
+ * "- Remastered 2011", "(Live)" or "[Deluxe Edition]"
+ */
+export function normalizeTitle(title: string): string {
+  let result = title;
+
+  // "(Live at Wembley)", "[2011 Remaster]"
+  result = result.replace(/\s*[([][^)\]]*[)\]]/g, (match) =>
+    VERSION_KEYWORDS.test(match) ? "" : match
+  );
+
+  // "Song - Remastered 2011", "Song - Live"
+  const dashIndex = result.indexOf(" - ");
+  if (dashIndex > 0 && VERSION_KEYWORDS.test(result.slice(dashIndex))) {
+    result = result.slice(0, dashIndex);
+  }
+
+  return normalizeText(result);
+}
+
+/**
+ * Key identifying a song independently of the release it appears on
+ */
+export function songKey(title: string, primaryArtist: string): string {
+  return `${normalizeTitle(title)}|${normalizeText(primaryArtist)}`;
+}
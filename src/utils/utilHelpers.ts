@@ -6,6 +6,46 @@ import { randomBytes } from "crypto";
 import { createCipheriv, createDecipheriv } from "crypto";
 dotenv.config();
 
+/**
+ * Round to three decimals for reporting
+ */
+export function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Value at fraction `q` (0-1) of an ascending list, interpolating linearly
+ */
+export function quantile(sorted: number[], q: number): number {
+  const index = (sorted.length - 1) * q;
+  const low = Math.floor(index);
+  const high = Math.ceil(index);
+  return sorted[low] + (sorted[high] - sorted[low]) * (index - low);
+}
+
+/**
+ * Add `amount` to a key's count
+ */
+export function increment(
+  counts: Map<string, number>,
+  key: string,
+  amount: number = 1
+): void {
+  counts.set(key, (counts.get(key) ?? 0) + amount);
+}
+
+/**
+ * Most frequent keys first; ties are ordered alphabetically
+ */
+export function topCounts(
+  counts: Map<string, number>,
+  limit: number
+): [string, number][] {
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
 class UtilHelper {
   protected redis: Redis | null;
   protected statePrefix: string;
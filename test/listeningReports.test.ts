@@ -0,0 +1,75 @@
+// File: test/listeningReports.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import listeningReports, {
+  parseReportPeriod,
+} from "../src/utils/listeningReports";
+
+test("parses a year", () => {
+  assert.deepEqual(parseReportPeriod("2024"), {
+    type: "year",
+    label: "2024",
+    start: "2024-01-01T00:00:00.000Z",
+    end: "2025-01-01T00:00:00.000Z",
+  });
+});
+
+test("parses a month, rolling December over into the next year", () => {
+  assert.deepEqual(parseReportPeriod("2024-02"), {
+    type: "month",
+    label: "2024-02",
+    start: "2024-02-01T00:00:00.000Z",
+    end: "2024-03-01T00:00:00.000Z",
+  });
+  assert.equal(parseReportPeriod("2023-12")?.end, "2024-01-01T00:00:00.000Z");
+});
+
+test("rejects anything else", () => {
+  for (const value of [
+    "",
+    "24",
+    "2024-1",
+    "2024-00",
+    "2024-13",
+    "2024-02-01",
+  ]) {
+    assert.equal(parseReportPeriod(value), null, value);
+  }
+});
+
+function report(topGenres: { genre: string; count: number }[]) {
+  return {
+    source: "history",
+    timeRange: null,
+    plays: 0,
+    minutesListened: null,
+    topTracks: [],
+    topArtists: [],
+    topGenres,
+    discoveries: null,
+    mostReplayedDay: null,
+    moodTrend: [],
+  };
+}
+
+test("ranks played genres before those only Spotify ranks", () => {
+  const combined = (listeningReports as any).combine(
+    report([
+      { genre: "jazz", count: 40 },
+      { genre: "soul", count: 12 },
+    ]),
+    report([
+      { genre: "pop", count: 3 },
+      { genre: "soul", count: 2 },
+      { genre: "rock", count: 1 },
+    ])
+  );
+
+  assert.deepEqual(combined.topGenres, [
+    { genre: "jazz", count: 40 },
+    { genre: "soul", count: 12 },
+    { genre: "pop", count: 3 },
+    { genre: "rock", count: 1 },
+  ]);
+});
@@ -0,0 +1,79 @@
+// File: test/nowPlaying.test.ts
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { NowPlaying } from "../src/utils/nowPlaying";
+import rateLimiter from "../src/utils/rateLimiter";
+import spotifyClient from "../src/utils/spotifyClient";
+import { SpotifyPlaybackState } from "../src/types/types";
+
+/**
+ * Playback of a track with `remainingMs` left to play
+ */
+function playing(remainingMs: number): SpotifyPlaybackState {
+  return {
+    is_playing: true,
+    progress_ms: 200000 - remainingMs,
+    context: null,
+    device: null,
+    item: {
+      type: "track",
+      uri: "spotify:track:t1",
+      name: "Track",
+      duration_ms: 200000,
+      artists: [],
+      album: { name: "Album", images: [] },
+    },
+  } as unknown as SpotifyPlaybackState;
+}
+
+/**
+ * Delay the poller picks after one poll with this much of the global
+ * budget left
+ */
+async function nextDelay(
+  headroom: number,
+  playback: SpotifyPlaybackState | null
+): Promise<number> {
+  const nowPlaying = new NowPlaying();
+  const delays: number[] = [];
+  mock.method(
+    nowPlaying as any,
+    "schedule",
+    (_u: string, _p: unknown, delayMs: number) => {
+      delays.push(delayMs);
+    }
+  );
+  mock.method(rateLimiter, "getWaitTime", async () => 0);
+  mock.method(rateLimiter, "getGlobalHeadroom", async () => headroom);
+  mock.method(spotifyClient, "getPlaybackState", async () => playback);
+  mock.method(console, "log", () => undefined);
+
+  nowPlaying.subscribe("u", () => undefined);
+  await (nowPlaying as any).poll("u", (nowPlaying as any).pollers.get("u"));
+  nowPlaying.close();
+  return delays[delays.length - 1];
+}
+
+test("polls playback every 30 seconds with the budget untouched", async () => {
+  assert.equal(await nextDelay(1, playing(120000)), 30000);
+});
+
+test("polls again just after the track ends", async () => {
+  assert.equal(await nextDelay(1, playing(3000)), 3500);
+});
+
+test("backs off as the global budget is spent", async () => {
+  assert.equal(await nextDelay(0.5, playing(120000)), 60000);
+  assert.equal(await nextDelay(0.25, playing(120000)), 120000);
+  assert.equal(await nextDelay(0, playing(120000)), 5 * 60 * 1000);
+});
+
+test("skips the track end poll once half the budget is spent", async () => {
+  assert.equal(await nextDelay(0.4, playing(3000)), 75000);
+});
+
+test("stretches idle polls too", async () => {
+  assert.equal(await nextDelay(1, null), 2000);
+  assert.equal(await nextDelay(0.1, null), 20000);
+});
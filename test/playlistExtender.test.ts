@@ -0,0 +1,113 @@
+// File: test/playlistExtender.test.ts
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import playlistExtender from "../src/utils/playlistExtender";
+import spotifyClient from "../src/utils/spotifyClient";
+import blocklistStore from "../src/utils/blocklistStore";
+import { createRandom } from "../src/utils/playlistShuffler";
+import {
+  PlaylistTrackItem,
+  RecommendationRequest,
+  SpotifyAudioFeatures,
+  SpotifyTrack,
+} from "../src/types/types";
+
+const FEATURES = [
+  "energy",
+  "danceability",
+  "valence",
+  "acousticness",
+  "instrumentalness",
+  "tempo",
+] as const;
+
+function track(id: string): SpotifyTrack {
+  return {
+    type: "track",
+    id,
+    uri: `spotify:track:${id}`,
+    name: id,
+    artists: [
+      { type: "artist", id: "a1", name: "Artist", uri: "spotify:artist:a1" },
+    ],
+    album: { type: "album", name: "Album", images: [], artists: [] },
+  } as unknown as SpotifyTrack;
+}
+
+/**
+ * Audio features with independent, evenly spread values
+ */
+function randomFeatures(
+  id: string,
+  random: () => number
+): SpotifyAudioFeatures {
+  return {
+    id,
+    energy: random(),
+    danceability: random(),
+    valence: random(),
+    acousticness: random(),
+    instrumentalness: random(),
+    tempo: 80 + random() * 100,
+  } as SpotifyAudioFeatures;
+}
+
+/**
+ * Whether a track satisfies every hard range of a recommendation request,
+ * as Spotify applies them
+ */
+function withinRanges(
+  features: SpotifyAudioFeatures,
+  attributes: RecommendationRequest["attributes"] = {}
+): boolean {
+  return FEATURES.every(
+    (name) =>
+      features[name] >= (attributes[`min_${name}`] ?? -Infinity) &&
+      features[name] <= (attributes[`max_${name}`] ?? Infinity)
+  );
+}
+
+test("a typical playlist still gets the requested number of suggestions", async () => {
+  const random = createRandom(7);
+  const features = new Map<string, SpotifyAudioFeatures>();
+
+  const playlist = Array.from({ length: 50 }, (_, i) => track(`own${i}`));
+  playlist.forEach(({ id }) => features.set(id, randomFeatures(id, random)));
+
+  // Spotify's pool for the seeds, drawn like the playlist's own tracks
+  const pool = Array.from({ length: 50 }, (_, i) => track(`rec${i}`));
+  pool.forEach(({ id }) => features.set(id, randomFeatures(id, random)));
+
+  mock.method(spotifyClient, "getAllPlaylistTracks", async () =>
+    playlist.map(
+      (item): PlaylistTrackItem => ({
+        added_at: null,
+        added_by: null,
+        is_local: false,
+        track: item,
+      })
+    )
+  );
+  mock.method(spotifyClient, "getAudioFeatures", async () => features);
+  mock.method(spotifyClient, "getArtists", async () => new Map());
+  mock.method(spotifyClient, "getAvailableGenreSeeds", async () => []);
+  mock.method(blocklistStore, "list", async () => []);
+  mock.method(
+    spotifyClient,
+    "getRecommendations",
+    async (request: RecommendationRequest) => ({
+      seeds: [],
+      tracks: pool
+        .filter(({ id }) => withinRanges(features.get(id)!, request.attributes))
+        .slice(0, request.limit),
+    })
+  );
+
+  const extension = await playlistExtender.suggest("p1", 20, "u");
+
+  assert.equal(extension.suggestions.length, 20);
+  assert.notEqual(extension.attributes?.target_valence, undefined);
+  assert.equal(extension.attributes?.min_valence, undefined);
+  assert.notEqual(extension.attributes?.min_energy, undefined);
+});
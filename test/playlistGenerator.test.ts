@@ -0,0 +1,107 @@
+// File: test/playlistGenerator.test.ts
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import playlistGenerator, {
+  MAX_TOLERANCE_MS,
+} from "../src/utils/playlistGenerator";
+import spotifyClient from "../src/utils/spotifyClient";
+import { GeneratorResult, PlaylistTrackItem } from "../src/types/types";
+
+/**
+ * Playlist entries holding tracks of the given lengths in seconds
+ */
+function items(...seconds: number[]): PlaylistTrackItem[] {
+  return seconds.map((duration, index) => ({
+    added_at: null,
+    added_by: null,
+    is_local: false,
+    track: {
+      type: "track",
+      id: `t${index}`,
+      uri: `spotify:track:t${index}`,
+      name: `Track ${index}`,
+      duration_ms: duration * 1000,
+      artists: [],
+      album: { type: "album", name: "Album", images: [], artists: [] },
+    } as any,
+  }));
+}
+
+/**
+ * Preview a playlist drawn from one source holding tracks of these lengths
+ */
+function preview(
+  seconds: number[],
+  durationMs: number,
+  toleranceMs: number,
+  seed: number = 1
+): Promise<GeneratorResult> {
+  mock.method(spotifyClient, "getAllTracksFromSource", async () =>
+    items(...seconds)
+  );
+  return playlistGenerator.preview(
+    { sources: ["p1"], durationMs, toleranceMs, seed },
+    "u"
+  );
+}
+
+function lengths(result: GeneratorResult): number[] {
+  return result.tracks
+    .map((track) => track.durationMs / 1000)
+    .sort((a, b) => a - b);
+}
+
+test("hits the target exactly when a subset allows it", async () => {
+  for (const seed of [1, 2, 3]) {
+    const result = await preview([60, 120, 180, 240], 300000, 0, seed);
+    assert.equal(result.durationMs, 300000);
+    assert.equal(result.withinTolerance, true);
+  }
+});
+
+test("falls short when nothing fits without overshooting", async () => {
+  const result = await preview([100, 100], 150000, 0);
+  assert.deepEqual(lengths(result), [100]);
+  assert.equal(result.withinTolerance, false);
+});
+
+test("overshoots within the tolerance when that is closer", async () => {
+  assert.deepEqual(
+    lengths(await preview([200, 110], 300000, 20000)),
+    [110, 200]
+  );
+  assert.deepEqual(lengths(await preview([200, 110], 300000, 5000)), [200]);
+});
+
+test("caps the tolerance", async () => {
+  const overshoot = 1000 + MAX_TOLERANCE_MS / 1000 + 100;
+  const result = await preview([overshoot], 1000000, 60 * 60 * 1000);
+  assert.deepEqual(result.tracks, []);
+});
+
+test("skips tracks without a duration", async () => {
+  assert.deepEqual(lengths(await preview([0, 30], 30000, 0)), [30]);
+});
+
+test("the same seed picks the same tracks", async () => {
+  const seconds = Array.from({ length: 40 }, (_, i) => 150 + i * 7);
+  const first = await preview(seconds, 3600000, 0, 7);
+  const second = await preview(seconds, 3600000, 0, 7);
+  assert.deepEqual(first.tracks, second.tracks);
+  assert.equal(first.durationMs, 3600000);
+});
+
+test("long targets leave the event loop responsive", async () => {
+  const seconds = Array.from({ length: 1000 }, (_, i) => 120 + (i % 240));
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+
+  try {
+    const result = await preview(seconds, 10 * 60 * 60 * 1000, 0);
+    assert.equal(result.withinTolerance, true);
+  } finally {
+    clearInterval(timer);
+  }
+  assert.ok(ticks > 0);
+});
@@ -0,0 +1,61 @@
+// File: test/playlistGenres.test.ts
+
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import playlistGenres, { bucketForGenre } from "../src/utils/playlistGenres";
+import spotifyClient, { SpotifyApiError } from "../src/utils/spotifyClient";
+
+test("the keyword ending last names the bucket", () => {
+  assert.equal(bucketForGenre("indie rock"), "rock");
+  assert.equal(bucketForGenre("pop rap"), "hip hop");
+  assert.equal(bucketForGenre("trap latino"), "latin");
+  assert.equal(bucketForGenre("German Techno"), "electronic");
+});
+
+test("on ties the longer keyword wins", () => {
+  assert.equal(bucketForGenre("new jack swing"), "r&b");
+  assert.equal(bucketForGenre("uk drum and bass"), "electronic");
+});
+
+test("keywords only match whole words", () => {
+  assert.equal(bucketForGenre("electropop"), null);
+  assert.equal(bucketForGenre("drapcore"), null);
+});
+
+test("custom buckets replace the defaults", () => {
+  const buckets = { chill: ["lo-fi", "ambient"] };
+  assert.equal(bucketForGenre("lo-fi beats", buckets), "chill");
+  assert.equal(bucketForGenre("indie rock", buckets), null);
+});
+
+test("a split failing partway names the playlists it created", async (t) => {
+  t.after(() => mock.restoreAll());
+  mock.method(playlistGenres, "previewSplit", async () => ({
+    playlistId: "source",
+    snapshotId: "snapshot",
+    playlists: [
+      { bucket: "rock", name: "Mix (rock)", uris: ["spotify:track:a"] },
+      { bucket: "jazz", name: "Mix (jazz)", uris: ["spotify:track:b"] },
+    ],
+    skipped: [],
+  }));
+  let created = 0;
+  mock.method(spotifyClient, "createPlaylist", async () => ({
+    id: `new${++created}`,
+  }));
+  mock.method(spotifyClient, "addTracksToPlaylist", async (id: string) => {
+    if (id === "new2") throw new SpotifyApiError("Too many requests", 429);
+    return { snapshot_id: "added" };
+  });
+
+  await assert.rejects(
+    playlistGenres.split("source"),
+    (error: SpotifyApiError) => {
+      assert.equal(error.status, 429);
+      assert.match(error.message, /"Mix \(rock\)" \(new1, 1 tracks\)/);
+      assert.match(error.message, /"Mix \(jazz\)" \(new2, 0 tracks\)/);
+      assert.match(error.message, /Too many requests$/);
+      return true;
+    }
+  );
+});
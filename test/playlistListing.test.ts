@@ -0,0 +1,113 @@
+// File: test/playlistListing.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getSpotifyPageRange,
+  toPlaylistSummary,
+  withLikedSongs,
+} from "../src/utils/playlistListing";
+import {
+  SpotifyPlaylist,
+  SpotifyPlaylistFull,
+  SpotifyPlaylistsResponse,
+} from "../src/types/types";
+
+const likedSongs = { id: "liked" } as SpotifyPlaylist;
+
+function playlists(count: number): SpotifyPlaylist[] {
+  return Array.from(
+    { length: count },
+    (_, i) => ({ id: `p${i}` } as SpotifyPlaylist)
+  );
+}
+
+/**
+ * Serve a listing page the way /api/playlists does, from an in-memory
+ * list standing in for Spotify's playlists
+ */
+function listPage(
+  spotify: SpotifyPlaylist[],
+  offset: number,
+  limit: number
+): SpotifyPlaylistsResponse {
+  const range = getSpotifyPageRange(offset, limit);
+  const page = {
+    href: "",
+    items: spotify.slice(range.offset, range.offset + range.limit),
+    limit: range.limit,
+    offset: range.offset,
+    next: null,
+    previous: null,
+    total: spotify.length,
+  };
+  return withLikedSongs(
+    page,
+    offset,
+    limit,
+    offset === 0 ? likedSongs : undefined
+  );
+}
+
+test("toPlaylistSummary keeps only the track count and link", () => {
+  const full = {
+    id: "p1",
+    name: "Mix",
+    followers: { href: null, total: 3 },
+    tracks: { href: "https://api/tracks", total: 2, items: [] },
+  } as unknown as SpotifyPlaylistFull;
+
+  assert.deepEqual(toPlaylistSummary(full), {
+    id: "p1",
+    name: "Mix",
+    tracks: { href: "https://api/tracks", total: 2 },
+  });
+});
+
+test("pages match Liked Songs followed by Spotify's playlists", () => {
+  const spotify = playlists(7);
+  const all = [likedSongs, ...spotify].map((playlist) => playlist.id);
+
+  for (const limit of [1, 2, 3, 8, 20]) {
+    for (let offset = 0; offset <= all.length; offset++) {
+      const page = listPage(spotify, offset, limit);
+      assert.deepEqual(
+        page.items.map((playlist) => playlist.id),
+        all.slice(offset, offset + limit),
+        `offset ${offset}, limit ${limit}`
+      );
+      assert.equal(page.total, all.length);
+    }
+  }
+});
+
+test("next and previous links walk every playlist once", () => {
+  const spotify = playlists(5);
+  const seen: string[] = [];
+  let link: string | null = "/api/playlists?offset=0&limit=2";
+
+  while (link) {
+    const params = new URLSearchParams(link.split("?")[1]);
+    const page = listPage(
+      spotify,
+      Number(params.get("offset")),
+      Number(params.get("limit"))
+    );
+    seen.push(...page.items.map((playlist) => playlist.id));
+    link = page.next;
+  }
+
+  assert.deepEqual(seen, ["liked", "p0", "p1", "p2", "p3", "p4"]);
+  assert.equal(listPage(spotify, 0, 2).previous, null);
+  assert.equal(
+    listPage(spotify, 3, 2).previous,
+    "/api/playlists?offset=1&limit=2"
+  );
+});
+
+test("an empty library still lists Liked Songs", () => {
+  const page = listPage([], 0, 20);
+  assert.deepEqual(page.items, [likedSongs]);
+  assert.equal(page.total, 1);
+  assert.equal(page.next, null);
+});
@@ -0,0 +1,76 @@
+// File: test/playlistReorder.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import playlistReorder from "../src/utils/playlistReorder";
+
+/**
+ * Apply moves the way Spotify's reorder endpoint does, one entry at a time
+ */
+function applyMoves(length: number, target: number[]): number[] {
+  const order = Array.from({ length }, (_, position) => position);
+  for (const { rangeStart, insertBefore } of playlistReorder.planMoves(
+    target
+  )) {
+    const [entry] = order.splice(rangeStart, 1);
+    order.splice(
+      rangeStart < insertBefore ? insertBefore - 1 : insertBefore,
+      0,
+      entry
+    );
+  }
+  return order;
+}
+
+test("longestIncreasingSubsequence returns the indices of a longest run", () => {
+  const values = [3, 1, 4, 1, 5, 9, 2, 6];
+  const indices = Array.from(
+    playlistReorder.longestIncreasingSubsequence(values)
+  ).sort((a, b) => a - b);
+
+  assert.equal(indices.length, 4);
+  indices.slice(1).forEach((index, i) => {
+    assert.ok(values[indices[i]] < values[index]);
+  });
+});
+
+test("longestIncreasingSubsequence handles empty and descending input", () => {
+  assert.equal(playlistReorder.longestIncreasingSubsequence([]).size, 0);
+  assert.equal(playlistReorder.longestIncreasingSubsequence([3, 2, 1]).size, 1);
+});
+
+test("planMoves leaves an unchanged order alone", () => {
+  assert.deepEqual(playlistReorder.planMoves([0, 1, 2, 3]), []);
+});
+
+test("planMoves moves a single entry once", () => {
+  assert.deepEqual(playlistReorder.planMoves([1, 2, 3, 0]), [
+    { rangeStart: 0, insertBefore: 4 },
+  ]);
+  assert.deepEqual(applyMoves(4, [3, 0, 1, 2]), [3, 0, 1, 2]);
+});
+
+test("planMoves reaches every target with the fewest moves", () => {
+  // Small deterministic generator so failures are reproducible
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  for (let run = 0; run < 200; run++) {
+    const length = 1 + Math.floor(random() * 30);
+    const target = Array.from({ length }, (_, position) => position);
+    for (let i = length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [target[i], target[j]] = [target[j], target[i]];
+    }
+
+    const rank = new Array<number>(length);
+    target.forEach((position, index) => (rank[position] = index));
+    const kept = playlistReorder.longestIncreasingSubsequence(rank).size;
+
+    assert.deepEqual(applyMoves(length, target), target);
+    assert.equal(playlistReorder.planMoves(target).length, length - kept);
+  }
+});
@@ -0,0 +1,92 @@
+// File: test/smartPlaylistQuery.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseSmartQuery,
+  SmartQueryError,
+} from "../src/utils/smartPlaylistQuery";
+import { LIKED_SONGS_ID } from "../src/utils/spotifyClient";
+
+test("parses sources, comparisons, ORDER BY and LIMIT", () => {
+  const query = parseSmartQuery(
+    "source in [Liked, playlist:abc123] AND energy > 0.7 " +
+      "ORDER BY added_at DESC, name LIMIT 200"
+  );
+
+  assert.deepEqual(query.sources, [LIKED_SONGS_ID, "abc123"]);
+  assert.deepEqual(query.condition, {
+    kind: "and",
+    left: {
+      kind: "comparison",
+      field: "source",
+      operator: "in",
+      value: [LIKED_SONGS_ID, "abc123"],
+    },
+    right: { kind: "comparison", field: "energy", operator: ">", value: 0.7 },
+  });
+  assert.deepEqual(query.orderBy, [
+    { field: "added_at", direction: "desc" },
+    { field: "name", direction: "asc" },
+  ]);
+  assert.equal(query.limit, 200);
+});
+
+test("AND binds tighter than OR", () => {
+  const { condition } = parseSmartQuery(
+    "explicit = true OR popularity >= 50 and release_year < 2000"
+  );
+
+  assert.equal(condition?.kind, "or");
+  assert.equal(condition?.kind === "or" ? condition.right.kind : null, "and");
+});
+
+test("NOT IN is sugar for NOT ... IN and strings may be quoted", () => {
+  const { condition } = parseSmartQuery(
+    'NOT artist in ["Nickelback", \'A "B"\']'
+  );
+  const sugared = parseSmartQuery('artist not in ["Nickelback", \'A "B"\']');
+
+  assert.deepEqual(condition, sugared.condition);
+  assert.deepEqual(condition, {
+    kind: "not",
+    operand: {
+      kind: "comparison",
+      field: "artist",
+      operator: "in",
+      value: ["Nickelback", 'A "B"'],
+    },
+  });
+});
+
+test("an empty query has no condition", () => {
+  assert.deepEqual(parseSmartQuery("  "), {
+    condition: null,
+    orderBy: [],
+    limit: null,
+    sources: [],
+  });
+  assert.equal(parseSmartQuery("LIMIT 5").condition, null);
+});
+
+test("rejects invalid queries with the error position", () => {
+  const cases: [string, number][] = [
+    ["colour = red", 0],
+    ["name > 5", 5],
+    ["energy contains 1", 7],
+    ["source != liked", 0],
+    ["energy = high", 9],
+    ["LIMIT 0", 6],
+    ["energy > 0.5 )", 13],
+    ["name = #", 7],
+  ];
+
+  for (const [input, position] of cases) {
+    assert.throws(
+      () => parseSmartQuery(input),
+      (error) =>
+        error instanceof SmartQueryError && error.position === position,
+      input
+    );
+  }
+});
@@ -0,0 +1,47 @@
+// File: test/smartPlaylists.test.ts
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import smartPlaylists from "../src/utils/smartPlaylists";
+import smartPlaylistStore from "../src/utils/smartPlaylistStore";
+import spotifyClient from "../src/utils/spotifyClient";
+import { SmartPlaylistRule } from "../src/types/types";
+
+test("concurrent syncs of a rule share one run", async () => {
+  const rule: SmartPlaylistRule = {
+    id: "r1",
+    name: "Rule",
+    query: "source = liked",
+    targetPlaylistId: "p1",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+  let stored = { ...rule };
+  mock.method(smartPlaylistStore, "get", async () => ({ ...stored }));
+  mock.method(smartPlaylistStore, "save", async (saved: SmartPlaylistRule) => {
+    stored = { ...saved };
+  });
+  mock.method(smartPlaylists as any, "evaluate", async () => []);
+  mock.method(console, "log", () => undefined);
+
+  let release!: () => void;
+  const replace = mock.method(
+    spotifyClient,
+    "replacePlaylistTracks",
+    () => new Promise<void>((resolve) => (release = resolve))
+  );
+
+  const first = smartPlaylists.sync("r1", "u");
+  const second = smartPlaylists.sync("r1", "u");
+  assert.equal(first, second);
+
+  // Let the shared sync reach Spotify before releasing it
+  for (let i = 0; i < 1000 && replace.mock.callCount() === 0; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  release();
+
+  assert.equal((await first).syncFailures, 0);
+  assert.equal(replace.mock.callCount(), 1);
+  assert.notEqual(smartPlaylists.sync("r1", "u"), first);
+});
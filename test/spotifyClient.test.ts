@@ -0,0 +1,177 @@
+// File: test/spotifyClient.test.ts
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SpotifyClient } from "../src/utils/spotifyClient";
+import { PlaylistTrackItem } from "../src/types/types";
+
+const BASE_URL = "https://api.spotify.com/v1";
+
+interface PageRequest {
+  endpoint: string;
+  params: Record<string, any>;
+}
+
+/**
+ * A client whose requests are answered from `items`, in pages of the
+ * requested size with absolute `next` links like Spotify's
+ */
+function fakeClient(
+  items: unknown[],
+  override?: (request: PageRequest) => unknown
+): { client: SpotifyClient; requests: PageRequest[] } {
+  const client = new SpotifyClient();
+  const requests: PageRequest[] = [];
+
+  mock.method(
+    client as any,
+    "request",
+    async (endpoint: string, _method: string, params: Record<string, any>) => {
+      const request = { endpoint, params };
+      requests.push(request);
+      if (override) {
+        const response = override(request);
+        if (response !== undefined) return response;
+      }
+
+      const offset = Number(params.offset);
+      const limit = Number(params.limit);
+      const next = offset + limit;
+      const query = new URLSearchParams({ ...params, offset: String(next) });
+      return {
+        href: `${BASE_URL}${endpoint}`,
+        items: items.slice(offset, next),
+        limit,
+        offset,
+        total: items.length,
+        next: next < items.length ? `${BASE_URL}${endpoint}?${query}` : null,
+        previous: null,
+      };
+    }
+  );
+
+  return { client, requests };
+}
+
+function playlists(count: number): { id: string }[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i}` }));
+}
+
+/**
+ * A playlist entry told apart by its `added_at`
+ */
+function entry(addedAt: string): PlaylistTrackItem {
+  return { added_at: addedAt, added_by: null, is_local: false, track: null };
+}
+
+test("iterateUserPlaylists follows next links across pages", async () => {
+  const { client, requests } = fakeClient(playlists(5));
+
+  const ids: string[] = [];
+  for await (const playlist of client.iterateUserPlaylists("u", {
+    pageSize: 2,
+  })) {
+    ids.push(playlist.id);
+  }
+
+  assert.deepEqual(ids, ["p0", "p1", "p2", "p3", "p4"]);
+  assert.deepEqual(
+    requests.map(({ endpoint, params }) => [endpoint, params.offset]),
+    [
+      ["/me/playlists", 0],
+      ["/me/playlists", "2"],
+      ["/me/playlists", "4"],
+    ]
+  );
+});
+
+test("iterateUserPlaylists caps the page size at Spotify's maximum", async () => {
+  const { client, requests } = fakeClient(playlists(1));
+  await client.getAllUserPlaylists("u", { pageSize: 500 });
+  assert.equal(requests[0].params.limit, 50);
+});
+
+test("maxItems stops without fetching further pages", async () => {
+  const { client, requests } = fakeClient(playlists(10));
+
+  const result = await client.getAllUserPlaylists("u", {
+    pageSize: 3,
+    maxItems: 4,
+  });
+
+  assert.deepEqual(
+    result.map((playlist) => playlist.id),
+    ["p0", "p1", "p2", "p3"]
+  );
+  assert.equal(requests.length, 2);
+});
+
+test("leaving the loop early fetches no further pages", async () => {
+  const { client, requests } = fakeClient(playlists(10));
+
+  for await (const playlist of client.iterateUserPlaylists("u", {
+    pageSize: 3,
+  })) {
+    if (playlist.id === "p1") break;
+  }
+
+  assert.equal(requests.length, 1);
+});
+
+test("an aborted signal cancels iteration before the next page", async () => {
+  const { client, requests } = fakeClient(playlists(10));
+  const controller = new AbortController();
+
+  await assert.rejects(async () => {
+    for await (const playlist of client.iterateUserPlaylists("u", {
+      pageSize: 3,
+      signal: controller.signal,
+    })) {
+      if (playlist.id === "p2") controller.abort();
+    }
+  }, /cancelled/);
+  assert.equal(requests.length, 1);
+});
+
+test("a malformed page fails the iteration", async () => {
+  const { client } = fakeClient(playlists(5), ({ params }) =>
+    params.offset === "2" ? { items: null, total: 5 } : undefined
+  );
+
+  await assert.rejects(
+    client.getAllUserPlaylists("u", { pageSize: 2 }),
+    (error) =>
+      error instanceof TypeError &&
+      /Unexpected response shape for \/me\/playlists/.test(error.message)
+  );
+});
+
+test("iteratePlaylistTracks follows next links of the playlist", async () => {
+  const { client, requests } = fakeClient(["a", "b", "c"].map(entry));
+
+  const items = await client.getAllPlaylistTracks("p1", "u", {
+    pageSize: 2,
+    market: "from_token",
+  });
+
+  assert.deepEqual(
+    items.map((item) => item.added_at),
+    ["a", "b", "c"]
+  );
+  assert.equal(requests[0].endpoint, "/playlists/p1/tracks");
+  assert.equal(requests[0].params.market, "from_token");
+  assert.equal(requests[1].params.market, "from_token");
+});
+
+test("iteratePlaylistTracks keeps the position of malformed items", async () => {
+  const { client } = fakeClient([entry("a"), { unexpected: true }, entry("c")]);
+  mock.method(console, "warn", () => undefined);
+
+  const items = await client.getAllPlaylistTracks("p1", "u", { pageSize: 2 });
+
+  assert.deepEqual(
+    items.map((item) => item.added_at),
+    ["a", null, "c"]
+  );
+  assert.equal(items[1].track, null);
+});